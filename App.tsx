@@ -1,36 +1,121 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { CaptionCue, SubtitleStyle, TranscriptionStatus, WordCue, GeneratedCue } from './types';
-import { transcribeAudio, generateCaptionsFromTranscription } from './services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ActiveWordEffect, CaptionCue, CaptionLayer, CaptionTrack, SubtitleStyle, TranscriptionStatus, WordCue, GeneratedCue, CueValidationReport, TranscriptionProviderKind, TranscriptionProviderSettings, WordTimingSource, ChunkProgress } from './types';
+import { createTranscriptionProvider, createTranslationProvider, defaultProviderSettings, TRANSCRIPTION_PROVIDERS } from './services/transcriptionProvider';
 import { renderVideoWithCaptions, extractAudio, renderCaptionsOnGreenScreen } from './services/videoRenderer';
+import { isOfflineEncodeSupported, isOfflineRenderSupported, probeFrameRate, renderGreenScreenOffline, renderTransparentOverlay, renderVideoOffline } from './services/offlineRenderer';
+import {
+  DEFAULT_EXPORT_SETTINGS, DEFAULT_OVERLAY_SETTINGS, EXPORT_QUALITIES, ExportQuality, ExportSettings, getExportFormat, getOutputFilename,
+  getOverlayExtension, getOverlayFormat, getVideoBitrate, isNearKeyColor, OVERLAY_FORMATS, OverlayFormat, OverlaySettings, VIDEO_EXPORT_FORMATS, VideoExportFormat,
+} from './services/exportFormats';
+import { convertVideo } from './services/ffmpegService';
+import { DEFAULT_OPENAI_TRANSLATION_MODEL } from './services/openAiCompatibleService';
+import { parseSubtitleFile } from './services/subtitleParser';
+import { describeValidationReport } from './services/cueValidator';
+import { transcribeInChunks, ChunkCache } from './services/transcriptionPipeline';
+import { isAbortError } from './services/retry';
+import { alignTranscriptToAudio } from './services/forcedAligner';
+import { ACTIVE_WORD_EFFECTS } from './services/captionEffects';
+import { findSegmentationPreset, segmentCaptions, SEGMENTATION_PRESETS } from './services/captionSegmenter';
+import { serializeCaptions, SubtitleFormat, SUBTITLE_FORMATS } from './services/subtitleSerializer';
 import { LoadingSpinner, UploadIcon, TimeIcon } from './components/icons';
+import { CaptionEditor } from './components/CaptionEditor';
+import { Timeline } from './components/Timeline';
+import { CaptionOverlay } from './components/CaptionOverlay';
+import { CaptionLint } from './components/CaptionLint';
+import { SpeakerSettings } from './components/SpeakerSettings';
+import { ProjectPanel } from './components/ProjectPanel';
+import { BatchQueue } from './components/BatchQueue';
+import { StylePresets } from './components/StylePresets';
+import { ReframeSettings } from './components/ReframeSettings';
+import { ReframePreview } from './components/ReframePreview';
+import { FindReplace } from './components/FindReplace';
+import { locateWord, setWordBoundary, setWordTimes } from './services/cueEditing';
+import { combineLintFixes, DEFAULT_LINT_RULES, LintFix, lintCaptions, LintRules } from './services/captionLinter';
+import { captionFont, layoutCaption, wordSeparator } from './services/captionLayout';
+import { translateCaptions, TRANSLATION_LANGUAGES } from './services/captionTranslator';
+import { listSpeakers } from './services/speakers';
+import { DEFAULT_SUBTITLE_STYLE } from './services/captionStyles';
+import { applyStylePreset, BUILT_IN_PRESETS, createStylePreset, loadUserPresets, parsePresetsJson, presetsToJson, saveUserPresets, StylePreset } from './services/stylePresets';
+import { CustomFont, customFontFamily, fontFromFile, loadCustomFonts, mergeCustomFonts, registerCustomFont, saveCustomFonts } from './services/customFonts';
+import { createProject, isSameVideo, parseProjectJson, Project, PROJECT_SCHEMA_VERSION, projectToJson, ProjectSummary } from './services/project';
+import { DEFAULT_REFRAME_SETTINGS, getCaptionArea, getOutputSize, isReframed, ReframeSettings as Reframe } from './services/reframe';
+import { loadVocabulary, parseVocabulary, saveVocabulary, whisperPromptTerms } from './services/vocabulary';
+import { deleteProject, listProjects, loadProject, saveProject, saveProjectVideo } from './services/projectStore';
 
-const initialStyles: SubtitleStyle = {
-  fontSize: 7, // percentage of video height
-  positionY: 10, // percentage from bottom
-  fontFamily: "'The Luckiest Guy', cursive",
-  color: '#FFFFFF',
-  backgroundColor: '#000000',
-  highlightColor: '#FFFF00',
-  showBackground: true,
-  maxWordsPerCue: 7,
-};
+// Track id of the source captions, next to the translations' language codes
+const SOURCE_TRACK_ID = 'source';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Used for caption overlays and real-time renders when the source frame rate cannot be read
+const DEFAULT_FRAME_RATE = 30;
 
 function App() {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [videoDimensions, setVideoDimensions] = useState({ width: 0, height: 0 });
+  // Size of the rendered output while it plays in the player; videoDimensions stays the source's
+  const [outputDimensions, setOutputDimensions] = useState({ width: 0, height: 0 });
   const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
 
   const [status, setStatus] = useState<TranscriptionStatus>(TranscriptionStatus.IDLE);
   const [statusMessage, setStatusMessage] = useState<string>('Upload a video to start.');
   
   const [captions, setCaptions] = useState<CaptionCue[]>([]);
   const [originalCues, setOriginalCues] = useState<GeneratedCue[]>([]);
-  const [styles, setStyles] = useState<SubtitleStyle>(initialStyles);
+  const [styles, setStyles] = useState<SubtitleStyle>(DEFAULT_SUBTITLE_STYLE);
+  const [providerSettings, setProviderSettings] = useState<TranscriptionProviderSettings>(() => ({ ...defaultProviderSettings('gemini'), vocabulary: loadVocabulary() }));
+  // Kept as typed, so a half-written line is not parsed away while editing
+  const [vocabularyText, setVocabularyText] = useState(() => providerSettings.vocabulary.join('\n'));
+  const [timingSource, setTimingSource] = useState<WordTimingSource>('ai');
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  const [canResume, setCanResume] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Latest captions, for operations that finish after the render that started them
+  const captionsRef = useRef(captions);
+  captionsRef.current = captions;
+  // Finished transcription work, reused when Generate is clicked again after a failure or cancel
+  const chunkCacheRef = useRef<{ key: string, cache: ChunkCache } | null>(null);
+  const [validationReport, setValidationReport] = useState<CueValidationReport | null>(null);
   
   const [outputUrl, setOutputUrl] = useState<string | null>(null);
   const [outputFilename, setOutputFilename] = useState<string>('');
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>('srt');
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [reframe, setReframe] = useState<Reframe>(DEFAULT_REFRAME_SETTINGS);
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS);
+  const [outputPlayable, setOutputPlayable] = useState(true);
+  const [lintRules, setLintRules] = useState<LintRules>(DEFAULT_LINT_RULES);
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrack[]>([]);
+  const [activeTrackId, setActiveTrackId] = useState(SOURCE_TRACK_ID);
+  const [secondaryTrackId, setSecondaryTrackId] = useState<string | null>(null); // shown together with the active track
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  const [userPresets, setUserPresets] = useState<StylePreset[]>(() => loadUserPresets(DEFAULT_SUBTITLE_STYLE));
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  // The open project; its captions, styles and edits live in the state above and are autosaved
+  const [project, setProject] = useState<Pick<Project, 'id' | 'name' | 'createdAt' | 'video'> | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [translationLanguage, setTranslationLanguage] = useState(TRANSLATION_LANGUAGES[0].code);
+
+  // Preview, rendering and export all use the selected track
+  const activeTrack = captionTracks.find(track => track.id === activeTrackId);
+  const trackCaptions = activeTrack?.captions ?? captions;
+  const trackStyles = activeTrack?.styles ?? styles;
+  const secondaryLayer: CaptionLayer | undefined = secondaryTrackId === activeTrackId ? undefined
+    : secondaryTrackId === SOURCE_TRACK_ID ? { captions, styles }
+    : captionTracks.find(track => track.id === secondaryTrackId);
+  const captionLayers: CaptionLayer[] = [{ captions: trackCaptions, styles: trackStyles }, ...(secondaryLayer ? [secondaryLayer] : [])];
+
+  const updateStyles = (update: (styles: SubtitleStyle) => SubtitleStyle) => {
+    if (activeTrack) {
+      setCaptionTracks(tracks => tracks.map(track => track.id === activeTrack.id ? { ...track, styles: update(track.styles) } : track));
+    } else {
+      setStyles(update);
+    }
+  };
 
 
   const isProcessing = ![
@@ -47,59 +132,93 @@ function App() {
       setCurrentTime(videoElement.currentTime);
     };
 
+    // timeupdate only fires a few times per second, so poll every frame while playing
+    // to keep the word highlight and timeline playhead smooth
+    let frameId = 0;
+    const tick = () => {
+      setCurrentTime(videoElement.currentTime);
+      frameId = requestAnimationFrame(tick);
+    };
+    const handlePlay = () => {
+      cancelAnimationFrame(frameId);
+      frameId = requestAnimationFrame(tick);
+    };
+    const handlePause = () => cancelAnimationFrame(frameId);
+
     videoElement.addEventListener('timeupdate', handleTimeUpdate);
+    videoElement.addEventListener('play', handlePlay);
+    videoElement.addEventListener('pause', handlePause);
     return () => {
+      cancelAnimationFrame(frameId);
       videoElement.removeEventListener('timeupdate', handleTimeUpdate);
+      videoElement.removeEventListener('play', handlePlay);
+      videoElement.removeEventListener('pause', handlePause);
     };
   }, [videoUrl, outputUrl]);
   
   useEffect(() => {
-    if (originalCues.length === 0) {
-      setCaptions([]);
-      return;
-    }
+    setCaptions(segmentCaptions(originalCues, styles.segmentation));
+  }, [originalCues, styles.segmentation]);
 
-    const allWords: WordCue[] = originalCues.flatMap(cue => cue.words);
-    if (allWords.length === 0) {
-      setCaptions([]);
-      return;
-    }
-    
-    const newCaptions: CaptionCue[] = [];
-    let currentWords: WordCue[] = [];
-    let cueId = 0;
-
-    for (const word of allWords) {
-      currentWords.push(word);
-      if (currentWords.length >= styles.maxWordsPerCue) {
-        newCaptions.push({
-          id: cueId++,
-          words: currentWords,
-          startTime: currentWords[0].startTime,
-          endTime: currentWords[currentWords.length - 1].endTime,
-          text: currentWords.map(w => w.word).join(' '),
-        });
-        currentWords = [];
-      }
-    }
+  const lintIssues = useMemo(() => {
+    if (captions.length === 0) return [];
+    // Line length is checked on the lines the layout actually wraps to, at the exported size and safe area
+    const frame = getOutputSize(videoDimensions.width > 0 ? videoDimensions : { width: 1920, height: 1080 }, reframe);
+    const area = getCaptionArea(frame, reframe);
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) return [];
+    const font = captionFont(styles, frame.height);
+    ctx.font = font.font;
+    ctx.letterSpacing = `${font.letterSpacing}px`;
+    const splitLines = (caption: CaptionCue) => layoutCaption(caption, styles, area, text => ctx.measureText(text).width, frame.height)
+      .lines.map(line => line.words.map(word => word.text).join(wordSeparator(caption)));
+    return lintCaptions(captions, lintRules, styles.segmentation, splitLines);
+  }, [captions, styles, videoDimensions, reframe, lintRules]);
 
-    if (currentWords.length > 0) {
-      newCaptions.push({
-        id: cueId++,
-        words: currentWords,
-        startTime: currentWords[0].startTime,
-        endTime: currentWords[currentWords.length - 1].endTime,
-        text: currentWords.map(w => w.word).join(' '),
-      });
-    }
-    
-    setCaptions(newCaptions);
-  }, [originalCues, styles.maxWordsPerCue]);
+  const refreshProjects = () => {
+    listProjects().then(setRecentProjects).catch(error => console.error(error));
+  };
+
+  useEffect(refreshProjects, []);
+
+  // Uploaded fonts are stored as data, and have to be registered again on every visit
+  useEffect(() => {
+    loadCustomFonts()
+      .then(fonts => {
+        setCustomFonts(fonts);
+        fonts.forEach(font => registerCustomFont(font).catch(error => console.error(`Could not load the font ${font.family}:`, error)));
+      })
+      .catch(error => console.error('Could not load the uploaded fonts:', error));
+  }, []);
+
+  // Saves the open project a moment after the last change, so typing does not write on every key
+  useEffect(() => {
+    if (!project) return;
+    const timer = setTimeout(() => {
+      saveProject({
+        ...project,
+        version: PROJECT_SCHEMA_VERSION,
+        updatedAt: Date.now(),
+        originalCues,
+        styles,
+        captionTracks,
+        speakerNames,
+        exportSettings,
+        reframe,
+      }).then(refreshProjects).catch(error => console.error('Autosave failed:', error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, originalCues, styles, captionTracks, speakerNames, exportSettings, reframe]);
 
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.type.startsWith('video/')) {
+      // A reopened project whose video was not stored takes the file instead of starting a new project
+      if (project && !videoFile && originalCues.length > 0) {
+        attachProjectVideo(file);
+        return;
+      }
       setVideoFile(file);
       const url = URL.createObjectURL(file);
       setVideoUrl(url);
@@ -108,105 +227,499 @@ function App() {
       setStatusMessage('Video loaded. Ready to generate captions.');
       setCaptions([]);
       setOriginalCues([]);
+      setValidationReport(null);
+      setCaptionTracks([]);
+      setActiveTrackId(SOURCE_TRACK_ID);
+      setSecondaryTrackId(null);
+      setSpeakerNames({});
+      // The output shape carries over to the next video, but crop keyframes belong to this one
+      setReframe(r => ({ ...r, keyframes: [] }));
+      setAudioBuffer(null);
+      chunkCacheRef.current = null;
+      setCanResume(false);
+      setChunkProgress([]);
+
+      const created = createProject(file, styles);
+      setProject(created);
+      saveProject(created)
+        .then(() => saveProjectVideo(created.id, file))
+        .catch(error => console.error('The video could not be stored with the project:', error))
+        .finally(refreshProjects);
     } else {
       setStatus(TranscriptionStatus.ERROR);
       setStatusMessage('Please select a valid video file.');
     }
   };
+
+  const attachProjectVideo = (file: File) => {
+    setVideoFile(file);
+    setVideoUrl(URL.createObjectURL(file));
+    setStatus(TranscriptionStatus.COMPLETED);
+    setStatusMessage(isSameVideo(project?.video ?? null, file)
+      ? 'Video attached to the project.'
+      : `Video attached. Note that the project was made for ${project?.video?.name ?? 'another video'}.`);
+    if (project) saveProjectVideo(project.id, file).catch(error => console.error(error));
+    extractAudio(file, () => {}).then(setAudioBuffer).catch(error => console.error(error));
+  };
+
+  // Replaces everything on screen with a saved or imported project
+  const openProject = (opened: Project, video: File | null) => {
+    abortControllerRef.current?.abort();
+    setProject({ id: opened.id, name: opened.name, createdAt: opened.createdAt, video: opened.video });
+    setOriginalCues(opened.originalCues);
+    setStyles(opened.styles);
+    setCaptionTracks(opened.captionTracks);
+    setActiveTrackId(SOURCE_TRACK_ID);
+    setSecondaryTrackId(null);
+    setSpeakerNames(opened.speakerNames);
+    setExportSettings(opened.exportSettings);
+    setReframe(opened.reframe);
+    setValidationReport(null);
+    setOutputUrl(null);
+    setAudioBuffer(null);
+    chunkCacheRef.current = null;
+    setCanResume(false);
+    setChunkProgress([]);
+
+    setVideoFile(video);
+    setVideoUrl(video ? URL.createObjectURL(video) : null);
+    if (video) {
+      extractAudio(video, () => {}).then(setAudioBuffer).catch(error => console.error(error));
+    }
+    setStatus(opened.originalCues.length > 0 ? TranscriptionStatus.COMPLETED : TranscriptionStatus.IDLE);
+    setStatusMessage(video || !opened.video
+      ? `Opened ${opened.name}.`
+      : `Opened ${opened.name}. Upload ${opened.video.name} to preview and render it.`);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const { project: opened, video } = await loadProject(id, DEFAULT_SUBTITLE_STYLE);
+      openProject(opened, video);
+    } catch (error) {
+      handleOperationError(error, 'Could not open the project');
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (project?.id === id) setProject(null);
+      refreshProjects();
+    } catch (error) {
+      handleOperationError(error, 'Could not delete the project');
+    }
+  };
+
+  const handleExportProject = () => {
+    if (!project) return;
+    const content = projectToJson({
+      ...project,
+      version: PROJECT_SCHEMA_VERSION,
+      updatedAt: Date.now(),
+      originalCues,
+      styles,
+      captionTracks,
+      speakerNames,
+      exportSettings,
+      reframe,
+    });
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${project.name}.captions.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setStatusMessage('Project exported. The video is not included in the file.');
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = parseProjectJson(await file.text(), DEFAULT_SUBTITLE_STYLE);
+      // Keeps the loaded video when it is the one the project was made for
+      const video = isSameVideo(imported.video, videoFile) ? videoFile : null;
+      await saveProject(imported);
+      if (video) await saveProjectVideo(imported.id, video).catch(error => console.error(error));
+      openProject(imported, video);
+      refreshProjects();
+    } catch (error) {
+      handleOperationError(error, 'Import failed');
+    }
+  };
   
+  // The player also shows the rendered output, whose size must not replace the source's
   const handleLoadedMetadata = () => {
     if (videoRef.current) {
-        setVideoDimensions({
+        const dimensions = {
             width: videoRef.current.videoWidth,
             height: videoRef.current.videoHeight,
-        });
+        };
+        if (showingOutput) {
+            setOutputDimensions(dimensions);
+            return;
+        }
+        setVideoDimensions(dimensions);
+        setVideoDuration(videoRef.current.duration);
     }
   };
 
+  const startOperation = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Shared handling for a failed or cancelled operation
+  const handleOperationError = (error: unknown, prefix: string) => {
+    if (isAbortError(error)) {
+      setStatus(captionsRef.current.length > 0 ? TranscriptionStatus.COMPLETED : TranscriptionStatus.IDLE);
+      setStatusMessage('Cancelled.');
+      return;
+    }
+    console.error(error);
+    const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+    setStatus(TranscriptionStatus.ERROR);
+    setStatusMessage(`${prefix}: ${message}`);
+  };
+
   const handleGenerate = async () => {
     if (!videoFile) return;
+    const signal = startOperation();
 
     setOutputUrl(null);
     setOriginalCues([]);
+    setValidationReport(null);
+    setCaptionTracks([]);
+    setActiveTrackId(SOURCE_TRACK_ID);
+    setSecondaryTrackId(null);
+    setSpeakerNames({});
+
+    // Cached chunk results are only valid for the same video, provider settings and timing source
+    const cacheKey = JSON.stringify([videoFile.name, videoFile.size, videoFile.lastModified,
+      providerSettings.kind, providerSettings.model, providerSettings.baseUrl, providerSettings.detectSpeakers, providerSettings.vocabulary, timingSource]);
+    if (chunkCacheRef.current?.key !== cacheKey) {
+      chunkCacheRef.current = { key: cacheKey, cache: new Map() };
+    }
+    const cache = chunkCacheRef.current.cache;
 
     try {
       setStatus(TranscriptionStatus.PREPARING);
-      const audioBuffer = await extractAudio(videoFile, setStatusMessage);
-
-      const transcription = await transcribeAudio(audioBuffer, setStatus, setStatusMessage);
-
-      setStatus(TranscriptionStatus.TRANSCRIBING);
-      setStatusMessage('Transcription complete. Generating timed captions...');
+      const decodedAudio = audioBuffer ?? await extractAudio(videoFile, setStatusMessage, signal);
+      setAudioBuffer(decodedAudio);
 
-      const videoDuration = videoRef.current?.duration || 0;
       if (videoDuration === 0) {
         throw new Error("Could not determine video duration.");
       }
-      const generatedCues = await generateCaptionsFromTranscription(transcription, videoDuration, setStatusMessage);
 
-      setOriginalCues(generatedCues);
+      const provider = createTranscriptionProvider(providerSettings);
+      setStatus(TranscriptionStatus.TRANSCRIBING);
+      const { cues, report } = await transcribeInChunks(decodedAudio, provider, timingSource, setStatusMessage, setChunkProgress, signal, cache);
+      if (cues.length === 0) {
+        throw new Error("The AI did not return any usable captions.");
+      }
+
+      setOriginalCues(cues);
+      setValidationReport(report);
+      setCanResume(false);
+      chunkCacheRef.current = null;
       setStatus(TranscriptionStatus.COMPLETED);
-      setStatusMessage('Captions generated successfully! You can now edit them or render the video.');
+      const fixes = report ? describeValidationReport(report) : [];
+      setStatusMessage(fixes.length > 0
+        ? `Captions generated with ${fixes.length} kind(s) of timing repair. Review the report, then edit or render the video.`
+        : 'Captions generated successfully! You can now edit them or render the video.');
 
     } catch (error) {
-        console.error(error);
-        const message = error instanceof Error ? error.message : 'An unknown error occurred.';
-        setStatus(TranscriptionStatus.ERROR);
-        setStatusMessage(`Error: ${message}`);
+        setCanResume([...cache.values()].some(entry => entry.text !== undefined));
+        handleOperationError(error, 'Error');
     }
   };
   
+  const handleImportSubtitles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be picked again after editing it
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      let importedCues: GeneratedCue[];
+      let decodedAudio = audioBuffer;
+      if (/\.txt$/i.test(file.name)) {
+        // A plain transcript has no timing at all, so align it to the video's audio locally
+        if (!videoFile) return;
+        setStatus(TranscriptionStatus.PREPARING);
+        decodedAudio = decodedAudio ?? await extractAudio(videoFile, setStatusMessage, startOperation());
+        setAudioBuffer(decodedAudio);
+        setStatusMessage('Aligning transcript to the audio...');
+        importedCues = alignTranscriptToAudio(await file.text(), decodedAudio);
+        if (importedCues.length === 0) {
+          throw new Error("The transcript file is empty.");
+        }
+      } else {
+        importedCues = parseSubtitleFile(file.name, await file.text());
+      }
+      setOutputUrl(null);
+      if (videoFile && !videoUrl) {
+        setVideoUrl(URL.createObjectURL(videoFile));
+      }
+      setOriginalCues(importedCues);
+      setValidationReport(null);
+      setStatus(TranscriptionStatus.COMPLETED);
+      setStatusMessage(`Imported ${importedCues.length} cues from ${file.name}. You can now edit them or render the video.`);
+
+      // The timeline waveform needs the audio, which an import would otherwise never decode
+      if (videoFile && !decodedAudio) {
+        extractAudio(videoFile, () => {}).then(setAudioBuffer).catch(error => console.error(error));
+      }
+    } catch (error) {
+      handleOperationError(error, 'Import failed');
+    }
+  };
+
+  const handleTranslate = async () => {
+    const language = TRANSLATION_LANGUAGES.find(l => l.code === translationLanguage);
+    if (!language || captions.length === 0) return;
+    const signal = startOperation();
+    setStatus(TranscriptionStatus.TRANSLATING);
+
+    try {
+      const translated = await translateCaptions(captions, language, createTranslationProvider(providerSettings), setStatusMessage, signal);
+      // Translating a language again replaces its track but keeps the style chosen for it
+      const existing = captionTracks.find(track => track.language === language.code);
+      const track: CaptionTrack = {
+        id: language.code,
+        language: language.code,
+        label: language.name,
+        captions: translated,
+        styles: existing?.styles ?? styles,
+      };
+      setCaptionTracks(tracks => [...tracks.filter(t => t.id !== track.id), track]);
+      handleSelectTrack(track.id);
+      setStatus(TranscriptionStatus.COMPLETED);
+      setStatusMessage(`Captions translated into ${language.name}. Preview, style, render or export them like the source captions.`);
+    } catch (error) {
+      handleOperationError(error, 'Translation failed');
+    }
+  };
+
+  // Selecting the track shown alongside swaps the two, so both stay on screen
+  const handleSelectTrack = (id: string) => {
+    if (secondaryTrackId === id) setSecondaryTrackId(activeTrackId);
+    setActiveTrackId(id);
+  };
+
+  const handleDeleteTrack = (id: string) => {
+    setCaptionTracks(tracks => tracks.filter(track => track.id !== id));
+    if (activeTrackId === id) setActiveTrackId(SOURCE_TRACK_ID);
+    if (secondaryTrackId === id) setSecondaryTrackId(null);
+  };
+
+  // Output files of a translation are named after its language
+  const trackSuffix = (suffix: string) => activeTrack ? `${suffix}_${activeTrack.language}` : suffix;
+
+  // The real-time recorder only produces WebM, so other formats are converted with FFmpeg afterwards
+  const convertRecording = async (url: string, videoBitrate: number, signal: AbortSignal) => {
+    if (exportSettings.format === 'webm') return url;
+    const recording = await (await fetch(url)).blob();
+    URL.revokeObjectURL(url);
+    setStatusMessage(`Converting to ${getExportFormat(exportSettings.format).label}...`);
+    return URL.createObjectURL(await convertVideo(recording, exportSettings, videoBitrate, setStatusMessage, signal));
+  };
+
   const handleRender = async () => {
-    if (!videoFile || captions.length === 0) return;
+    if (!videoFile || trackCaptions.length === 0) return;
     
+    const signal = startOperation();
     setStatus(TranscriptionStatus.RENDERING);
     setStatusMessage('Preparing to render video...');
-    setOutputFilename(`${videoFile.name.replace(/\.[^/.]+$/, "")}_captioned.webm`);
+    setOutputFilename(getOutputFilename(videoFile.name, trackSuffix('captioned'), getExportFormat(exportSettings.format).extension));
     
     try {
-        const url = await renderVideoWithCaptions(videoFile, captions, styles, videoDimensions, setStatusMessage);
+        // Decoding frame by frame is faster and frame-accurate; the real-time recorder covers other browsers, containers and codecs
+        let url = isOfflineRenderSupported(videoFile)
+            ? await renderVideoOffline(videoFile, captionLayers, videoDimensions, reframe, exportSettings, setStatusMessage, signal)
+            : null;
+        if (!url) {
+            const output = getOutputSize(videoDimensions, reframe);
+            const videoBitrate = getVideoBitrate(exportSettings, output.width, output.height, DEFAULT_FRAME_RATE);
+            url = await renderVideoWithCaptions(videoFile, captionLayers, videoDimensions, reframe, videoBitrate, setStatusMessage, signal);
+            url = await convertRecording(url, videoBitrate, signal);
+        }
         setOutputUrl(url);
+        setOutputPlayable(true);
         setVideoUrl(null);
         setStatus(TranscriptionStatus.COMPLETED);
         setStatusMessage('Video rendered successfully! Click Download to save.');
     } catch (error) {
-        console.error(error);
-        const message = error instanceof Error ? error.message : 'An unknown error occurred.';
-        setStatus(TranscriptionStatus.ERROR);
-        setStatusMessage(`Render failed: ${message}`);
+        handleOperationError(error, 'Render failed');
     }
   };
   
-  const handleRenderGreenScreen = async () => {
-    if (!videoFile || captions.length === 0) return;
-    const duration = videoRef.current?.duration;
+  const handleRenderOverlay = async () => {
+    if (!videoFile || trackCaptions.length === 0) return;
+    const duration = videoDuration;
     if (!duration) {
         setStatus(TranscriptionStatus.ERROR);
-        setStatusMessage('Could not determine video duration for green screen render.');
+        setStatusMessage('Could not determine video duration for the caption overlay.');
         return;
     }
 
+    const format = getOverlayFormat(overlaySettings.format);
+    const signal = startOperation();
     setStatus(TranscriptionStatus.RENDERING);
-    setStatusMessage('Preparing to render green screen captions...');
-    setOutputFilename(`${videoFile.name.replace(/\.[^/.]+$/, "")}_greenscreen_captions.webm`);
+    setStatusMessage('Preparing to render the caption overlay...');
+    setOutputFilename(getOutputFilename(videoFile.name, trackSuffix(format.value === 'green-screen' ? 'greenscreen_captions' : 'caption_overlay'), getOverlayExtension(overlaySettings, exportSettings)));
 
     try {
-        const url = await renderCaptionsOnGreenScreen(captions, styles, videoDimensions, duration, setStatusMessage);
+        let url: string;
+        const frameRate = (await probeFrameRate(videoFile)) ?? DEFAULT_FRAME_RATE;
+        if (overlaySettings.format !== 'green-screen') {
+            url = await renderTransparentOverlay(captionLayers, videoDimensions, duration, frameRate, overlaySettings.format, exportSettings, setStatusMessage, signal);
+        } else if (isOfflineEncodeSupported()) {
+            url = await renderGreenScreenOffline(captionLayers, videoDimensions, duration, frameRate, overlaySettings.keyColor, exportSettings, setStatusMessage, signal);
+        } else {
+            const videoBitrate = getVideoBitrate(exportSettings, videoDimensions.width, videoDimensions.height, DEFAULT_FRAME_RATE);
+            url = await renderCaptionsOnGreenScreen(captionLayers, videoDimensions, duration, overlaySettings.keyColor, videoBitrate, setStatusMessage, signal);
+            url = await convertRecording(url, videoBitrate, signal);
+        }
         setOutputUrl(url);
-        setVideoUrl(null);
+        setOutputPlayable(format.playable);
+        // Image sequences and ProRes cannot play in the browser, so the source stays in the player
+        if (format.playable) {
+            setVideoUrl(null);
+        } else if (!videoUrl) {
+            setVideoUrl(URL.createObjectURL(videoFile));
+        }
         setStatus(TranscriptionStatus.COMPLETED);
-        setStatusMessage('Green screen video rendered successfully! Click Download to save.');
+        setStatusMessage('Caption overlay rendered successfully! Click Download to save.');
     } catch (error) {
-        console.error(error);
-        const message = error instanceof Error ? error.message : 'An unknown error occurred.';
-        setStatus(TranscriptionStatus.ERROR);
-        setStatusMessage(`Render failed: ${message}`);
+        handleOperationError(error, 'Render failed');
+    }
+  };
+
+  const handleDownloadSubtitles = () => {
+    if (!videoFile || trackCaptions.length === 0) return;
+
+    const format = SUBTITLE_FORMATS.find(f => f.value === subtitleFormat) ?? SUBTITLE_FORMATS[0];
+    const content = serializeCaptions(format.value, trackCaptions, trackStyles, videoDimensions, speakerNames);
+    const url = URL.createObjectURL(new Blob([content], { type: `${format.mimeType};charset=utf-8` }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${videoFile.name.replace(/\.[^/.]+$/, "")}${activeTrack ? `.${activeTrack.language}` : ''}.${format.value}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setStatusMessage(`Subtitles exported as ${format.label}.`);
+  };
+
+  const persistPresets = (presets: StylePreset[]) => {
+    saveUserPresets(presets);
+    setUserPresets(presets);
+  };
+
+  const handleSavePreset = (name: string) => {
+    // Saving under an existing name updates that preset
+    const existing = userPresets.find(preset => preset.name === name);
+    const preset = { ...createStylePreset(name, trackStyles), id: existing?.id ?? crypto.randomUUID() };
+    try {
+      persistPresets(existing ? userPresets.map(p => p.id === existing.id ? preset : p) : [...userPresets, preset]);
+      setStatusMessage(`Style saved as ${name}.`);
+    } catch (error) {
+      handleOperationError(error, 'Could not save the preset');
     }
   };
 
-  const activeCaption = captions.find(c => currentTime >= c.startTime && currentTime <= c.endTime);
-  const videoAspectRatio = videoDimensions.width > 0 && videoDimensions.height > 0
-    ? `${videoDimensions.width} / ${videoDimensions.height}`
+  const handleDeletePreset = (id: string) => {
+    try {
+      persistPresets(userPresets.filter(preset => preset.id !== id));
+    } catch (error) {
+      handleOperationError(error, 'Could not delete the preset');
+    }
+  };
+
+  const handleApplyPreset = (preset: StylePreset) => {
+    updateStyles(s => applyStylePreset(s, preset));
+    setStatusMessage(`Applied the ${preset.name} style.`);
+  };
+
+  const handleExportPresets = () => {
+    const url = URL.createObjectURL(new Blob([presetsToJson(userPresets, customFonts)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'caption_style_presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Registers fonts before storing them, so a broken font file is never saved
+  const addCustomFonts = async (fonts: CustomFont[]) => {
+    await Promise.all(fonts.map(registerCustomFont));
+    const merged = mergeCustomFonts(customFonts, fonts);
+    await saveCustomFonts(merged);
+    setCustomFonts(merged);
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const { presets, fonts } = parsePresetsJson(await file.text(), DEFAULT_SUBTITLE_STYLE);
+      if (fonts.length > 0) await addCustomFonts(fonts);
+      persistPresets([...userPresets, ...presets]);
+      setStatusMessage(`Imported ${presets.length} style preset(s).`);
+    } catch (error) {
+      handleOperationError(error, 'Import failed');
+    }
+  };
+
+  const handleUploadFont = async (file: File) => {
+    try {
+      const font = await fontFromFile(file);
+      await addCustomFonts([font]);
+      updateStyles(s => ({ ...s, fontFamily: customFontFamily(font) }));
+      setStatusMessage(`Font ${font.family} added.`);
+    } catch (error) {
+      handleOperationError(error, 'Font upload failed');
+    }
+  };
+
+  const handleSeek = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  };
+
+  const handleWordBoundaryChange = (globalWordIndex: number, edge: 'start' | 'end', time: number) => {
+    setOriginalCues(cues => {
+      const location = locateWord(cues, globalWordIndex);
+      return location ? setWordBoundary(cues, location.cueIndex, location.wordIndex, edge, time) : cues;
+    });
+  };
+
+  const handleVocabularyChange = (text: string) => {
+    const vocabulary = parseVocabulary(text);
+    setVocabularyText(text);
+    setProviderSettings(s => ({ ...s, vocabulary }));
+    saveVocabulary(vocabulary);
+  };
+
+  const handleLintFix = (fixes: LintFix[]) => {
+    const { changes, rules } = combineLintFixes(fixes);
+    if (changes.length > 0) setOriginalCues(cues => setWordTimes(cues, changes));
+    if (Object.keys(rules).length > 0) setStyles(s => ({ ...s, segmentation: { ...s.segmentation, ...rules } }));
+  };
+
+  const speakers = listSpeakers(originalCues);
+  const trackOptions = [{ id: SOURCE_TRACK_ID, label: 'Source' }, ...captionTracks];
+  // The rendered output plays as it is; the source is previewed in the shape it will be exported in
+  const showingOutput = !!(outputPlayable && outputUrl);
+  const previewReframe = !showingOutput && isReframed(reframe) && videoDimensions.width > 0;
+  const playerSize = showingOutput ? outputDimensions : previewReframe ? getOutputSize(videoDimensions, reframe) : videoDimensions;
+  const videoAspectRatio = playerSize.width > 0 && playerSize.height > 0
+    ? `${playerSize.width} / ${playerSize.height}`
     : '16 / 9';
 
   return (
@@ -234,53 +747,84 @@ function App() {
               <>
                 <video
                   ref={videoRef}
-                  src={outputUrl || videoUrl || ''}
-                  controls
-                  className="w-full h-full rounded-lg"
+                  src={(outputPlayable && outputUrl) || videoUrl || ''}
+                  controls={!previewReframe}
+                  className={`w-full h-full rounded-lg ${previewReframe ? 'opacity-0' : ''}`}
                   onLoadedMetadata={handleLoadedMetadata}
                   onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
                 />
-                {activeCaption && !outputUrl && (
-                   <div 
-                     className="absolute text-center" 
-                     style={{ 
-                       bottom: `${styles.positionY}%`, 
-                       left: '50%', 
-                       transform: 'translateX(-50%)',
-                       fontFamily: styles.fontFamily,
-                       fontSize: `${styles.fontSize / 100 * (videoRef.current?.clientHeight || 0)}px`,
-                       color: styles.color,
-                     }}
-                   >
-                     <span style={{
-                       backgroundColor: styles.showBackground ? styles.backgroundColor + 'B3' : 'transparent',
-                       padding: '0.2em 0.4em',
-                       borderRadius: '0.2em',
-                       boxDecorationBreak: 'clone',
-                       WebkitBoxDecorationBreak: 'clone',
-                     }}>
-                      {activeCaption.words.map((word, i) => (
-                        <span key={i} style={{ color: currentTime >= word.startTime && currentTime <= word.endTime ? styles.highlightColor : styles.color }}>
-                          {word.word}{' '}
-                        </span>
-                      ))}
-                     </span>
-                   </div>
+                {previewReframe ? (
+                  <ReframePreview videoRef={videoRef} layers={captionLayers} currentTime={currentTime} videoDimensions={videoDimensions} reframe={reframe} />
+                ) : !showingOutput && videoDimensions.width > 0 && (
+                  <CaptionOverlay layers={captionLayers} currentTime={currentTime} videoDimensions={videoDimensions} />
                 )}
               </>
             )}
           </div>
 
+          {/* Timeline */}
+          {(videoUrl || outputUrl) && videoDuration > 0 && (
+            <div className="mb-4">
+              <Timeline
+                audioBuffer={audioBuffer}
+                captions={captions}
+                duration={videoDuration}
+                currentTime={currentTime}
+                disabled={isProcessing}
+                onSeek={handleSeek}
+                onWordBoundaryChange={handleWordBoundaryChange}
+              />
+            </div>
+          )}
+
           {/* Status Bar */}
           <div className="bg-gray-700 p-3 rounded-lg flex items-center gap-3">
             {isProcessing && <LoadingSpinner />}
             <p className="flex-grow">{statusMessage}</p>
+            {isProcessing && (
+              <button onClick={handleCancel} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                Cancel
+              </button>
+            )}
             {status === TranscriptionStatus.COMPLETED && outputUrl && (
               <a href={outputUrl} download={outputFilename} className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
-                Download Video
+                {outputPlayable ? 'Download Video' : 'Download Overlay'}
               </a>
             )}
           </div>
+          {chunkProgress.length > 1 && (
+            <div className="flex gap-1 mt-2" title="Transcription progress per audio chunk">
+              {chunkProgress.map(chunk => (
+                <div
+                  key={chunk.index}
+                  className={`h-2 flex-1 rounded ${{
+                    pending: 'bg-gray-600',
+                    transcribing: 'bg-blue-500 animate-pulse',
+                    timing: 'bg-purple-500 animate-pulse',
+                    done: 'bg-green-500',
+                    error: 'bg-red-500',
+                  }[chunk.state]}`}
+                  title={`Part ${chunk.index + 1}: ${chunk.startTime.toFixed(0)}s - ${chunk.endTime.toFixed(0)}s (${chunk.state})`}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* Caption Editor */}
+          {originalCues.length > 0 && (
+            <div className="mt-4">
+              <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Captions</h2>
+              <div className="max-h-96 overflow-y-auto pr-1">
+                <CaptionEditor
+                  cues={originalCues}
+                  currentTime={currentTime}
+                  disabled={isProcessing}
+                  onChange={setOriginalCues}
+                  onSeek={handleSeek}
+                />
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Right/Controls Panel */}
@@ -289,62 +833,402 @@ function App() {
            <div className="bg-gray-800 p-4 rounded-lg">
              <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Actions</h2>
              <div className="flex flex-col gap-3">
+               <div>
+                 <label className="block text-sm font-medium mb-1">Word Timing</label>
+                 <select value={timingSource} onChange={(e) => setTimingSource(e.target.value as WordTimingSource)} disabled={isProcessing} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
+                   <option value="ai">From the AI provider</option>
+                   <option value="audio">Aligned to audio (local)</option>
+                 </select>
+               </div>
                <button onClick={handleGenerate} disabled={!videoFile || isProcessing} className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors w-full flex items-center justify-center gap-2">
-                 <TimeIcon /> Generate Captions
+                 <TimeIcon /> {canResume ? 'Resume Generating' : 'Generate Captions'}
                </button>
-               <button onClick={handleRender} disabled={captions.length === 0 || isProcessing} className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors w-full">
+               <label className={`bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors w-full text-center ${!videoFile || isProcessing ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-500 cursor-pointer'}`}>
+                 Import Subtitles (SRT/VTT/ASS/TXT)
+                 <input type="file" className="hidden" accept=".srt,.vtt,.ass,.ssa,.txt" onChange={handleImportSubtitles} disabled={!videoFile || isProcessing} />
+               </label>
+               <div className="grid grid-cols-2 gap-2">
+                 <div>
+                   <label className="block text-sm font-medium mb-1">Video Format</label>
+                   <select value={exportSettings.format} onChange={(e) => setExportSettings(s => ({ ...s, format: e.target.value as VideoExportFormat }))} disabled={isProcessing} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
+                     {VIDEO_EXPORT_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                   </select>
+                 </div>
+                 <div>
+                   <label className="block text-sm font-medium mb-1">Quality</label>
+                   <select value={exportSettings.quality} onChange={(e) => setExportSettings(s => ({ ...s, quality: e.target.value as ExportQuality }))} disabled={isProcessing} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
+                     {EXPORT_QUALITIES.map(q => <option key={q.value} value={q.value}>{q.label}</option>)}
+                   </select>
+                 </div>
+               </div>
+               {exportSettings.quality === 'custom' && (
+                 <div>
+                   <label className="block text-sm font-medium mb-1">Video Bitrate (kbps)</label>
+                   <input type="number" min="200" max="50000" step="100" value={exportSettings.bitrateKbps} onChange={(e) => setExportSettings(s => ({ ...s, bitrateKbps: Number(e.target.value) || s.bitrateKbps }))} disabled={isProcessing} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2" />
+                 </div>
+               )}
+               <button onClick={handleRender} disabled={trackCaptions.length === 0 || isProcessing} className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors w-full">
                  Render Video
                </button>
-                <button onClick={handleRenderGreenScreen} disabled={captions.length === 0 || isProcessing} className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors w-full">
-                 Export Green Screen
+               <div>
+                 <label className="block text-sm font-medium mb-1">Caption Overlay</label>
+                 <select value={overlaySettings.format} onChange={(e) => setOverlaySettings(s => ({ ...s, format: e.target.value as OverlayFormat }))} disabled={isProcessing} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
+                   {OVERLAY_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                 </select>
+               </div>
+               {overlaySettings.format === 'green-screen' && (
+                 <div>
+                   <div className="flex items-center justify-between">
+                     <label className="block text-sm font-medium">Key Color</label>
+                     <input type="color" value={overlaySettings.keyColor} onChange={(e) => setOverlaySettings(s => ({ ...s, keyColor: e.target.value }))} disabled={isProcessing} className="w-16 h-8 bg-gray-700 border-gray-600 rounded-lg" />
+                   </div>
+                   {captionLayers.flatMap(layer => [layer.styles.color, layer.styles.highlightColor]).some(color => isNearKeyColor(color, overlaySettings.keyColor)) && (
+                     <p className="text-sm text-yellow-400 mt-1">A caption color is close to the key color and will be keyed out with it.</p>
+                   )}
+                 </div>
+               )}
+               <button onClick={handleRenderOverlay} disabled={trackCaptions.length === 0 || isProcessing} className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors w-full">
+                 Export Caption Overlay
                </button>
+               <div className="flex gap-2">
+                 <select value={subtitleFormat} onChange={(e) => setSubtitleFormat(e.target.value as SubtitleFormat)} className="flex-grow bg-gray-700 border border-gray-600 rounded-lg p-2">
+                   {SUBTITLE_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                 </select>
+                 <button onClick={handleDownloadSubtitles} disabled={trackCaptions.length === 0 || isProcessing} className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                   Download Subtitles
+                 </button>
+               </div>
              </div>
            </div>
+          {/* Reframe */}
+          <div className="bg-gray-800 p-4 rounded-lg">
+            <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Reframe</h2>
+            <ReframeSettings
+              settings={reframe}
+              currentTime={currentTime}
+              disabled={isProcessing}
+              onChange={setReframe}
+              onSeek={handleSeek}
+            />
+          </div>
+          {/* Batch */}
+          <div className="bg-gray-800 p-4 rounded-lg">
+            <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Batch Queue</h2>
+            <BatchQueue
+              settings={{ providerSettings, timingSource, styles, subtitleFormat, exportSettings, reframe: { ...reframe, keyframes: [] } }}
+              disabled={isProcessing}
+            />
+          </div>
+          {/* Projects */}
+          <div className="bg-gray-800 p-4 rounded-lg">
+            <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Projects</h2>
+            <ProjectPanel
+              projects={recentProjects}
+              currentProjectId={project?.id ?? null}
+              disabled={isProcessing}
+              onOpen={handleOpenProject}
+              onDelete={handleDeleteProject}
+              onExport={handleExportProject}
+              onImport={handleImportProject}
+            />
+          </div>
+          {/* AI Provider */}
+          <div className="bg-gray-800 p-4 rounded-lg">
+            <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">AI Provider</h2>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium mb-1">Provider</label>
+                <select value={providerSettings.kind} onChange={(e) => setProviderSettings(s => ({ ...defaultProviderSettings(e.target.value as TranscriptionProviderKind), detectSpeakers: s.detectSpeakers, vocabulary: s.vocabulary }))} disabled={isProcessing} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
+                  {TRANSCRIPTION_PROVIDERS.map(p => <option key={p.kind} value={p.kind}>{p.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Model</label>
+                <input list="provider-models" value={providerSettings.model} onChange={(e) => setProviderSettings(s => ({ ...s, model: e.target.value }))} disabled={isProcessing} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2" />
+                <datalist id="provider-models">
+                  {TRANSCRIPTION_PROVIDERS.find(p => p.kind === providerSettings.kind)?.models.map(m => <option key={m} value={m} />)}
+                </datalist>
+              </div>
+              {providerSettings.kind === 'openai-compatible' && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Base URL</label>
+                  <input value={providerSettings.baseUrl} onChange={(e) => setProviderSettings(s => ({ ...s, baseUrl: e.target.value }))} disabled={isProcessing} placeholder="http://localhost:8000/v1" className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2" />
+                </div>
+              )}
+              {providerSettings.kind === 'openai-compatible' && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Translation Model</label>
+                  <input value={providerSettings.translationModel} onChange={(e) => setProviderSettings(s => ({ ...s, translationModel: e.target.value }))} disabled={isProcessing} placeholder={DEFAULT_OPENAI_TRANSLATION_MODEL} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2" />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium mb-1">API Key</label>
+                <input type="password" value={providerSettings.apiKey} onChange={(e) => setProviderSettings(s => ({ ...s, apiKey: e.target.value }))} disabled={isProcessing} placeholder={providerSettings.kind === 'openai-compatible' ? 'Optional for local servers' : ''} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2" />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={providerSettings.detectSpeakers} onChange={(e) => setProviderSettings(s => ({ ...s, detectSpeakers: e.target.checked }))} disabled={isProcessing} />
+                Detect speakers
+              </label>
+              {providerSettings.detectSpeakers && providerSettings.kind === 'openai-compatible' && (
+                <p className="text-xs text-gray-400">Speakers are only found when the server returns diarization, like WhisperX.</p>
+              )}
+              <div>
+                <label className="block text-sm font-medium mb-1">Vocabulary ({providerSettings.vocabulary.length} {providerSettings.vocabulary.length === 1 ? 'term' : 'terms'})</label>
+                <textarea value={vocabularyText} onChange={(e) => handleVocabularyChange(e.target.value)} disabled={isProcessing} rows={3} placeholder="Product names, people's names, jargon: one per line" className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-sm" />
+                {providerSettings.kind === 'openai-compatible' && whisperPromptTerms(providerSettings.vocabulary).length < providerSettings.vocabulary.length && (
+                  <p className="text-xs text-yellow-400">Whisper's prompt is limited, so only the first {whisperPromptTerms(providerSettings.vocabulary).length} terms are sent.</p>
+                )}
+              </div>
+            </div>
+          </div>
+          {/* Validation Report */}
+          {validationReport && (
+            <div className="bg-gray-800 p-4 rounded-lg">
+              <div className="flex items-center justify-between mb-4 border-b border-gray-700 pb-2">
+                <h2 className="text-xl font-semibold">Caption Check</h2>
+                <button onClick={() => setValidationReport(null)} className="text-sm text-gray-400 hover:text-white">Dismiss</button>
+              </div>
+              <p className={`text-sm mb-2 ${validationReport.coverage < 0.95 ? 'text-yellow-400' : 'text-gray-300'}`}>
+                {Math.round(validationReport.coverage * 100)}% of the transcription was covered by the AI captions.
+              </p>
+              {describeValidationReport(validationReport).length === 0 ? (
+                <p className="text-sm text-green-400">No timing problems found.</p>
+              ) : (
+                <ul className="text-sm list-disc list-inside space-y-1 text-gray-300">
+                  {describeValidationReport(validationReport).map(line => <li key={line}>{line}</li>)}
+                </ul>
+              )}
+              {validationReport.missingPhrases.length > 0 && (
+                <div className="mt-2 text-sm">
+                  <p className="text-gray-400">Missing from the captions:</p>
+                  <ul className="list-disc list-inside text-gray-300">
+                    {validationReport.missingPhrases.slice(0, 5).map((phrase, i) => <li key={i} className="truncate">"{phrase}"</li>)}
+                  </ul>
+                  {validationReport.missingPhrases.length > 5 && (
+                    <p className="text-gray-500">and {validationReport.missingPhrases.length - 5} more</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {/* Translations */}
+          {captions.length > 0 && (
+            <div className="bg-gray-800 p-4 rounded-lg">
+              <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Caption Tracks</h2>
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {trackOptions.map(track => (
+                    <div key={track.id} className={`flex items-center rounded-lg ${activeTrackId === track.id ? 'bg-blue-600' : 'bg-gray-700'}`}>
+                      <button onClick={() => handleSelectTrack(track.id)} disabled={isProcessing} className="py-1 px-3 text-sm">{track.label}</button>
+                      {track.id !== SOURCE_TRACK_ID && (
+                        <button onClick={() => handleDeleteTrack(track.id)} disabled={isProcessing} className="pr-2 text-gray-300 hover:text-white" title={`Delete the ${track.label} track`}>×</button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {captionTracks.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Show Together With</label>
+                    <select value={secondaryTrackId ?? ''} onChange={(e) => setSecondaryTrackId(e.target.value || null)} disabled={isProcessing} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
+                      <option value="">Nothing</option>
+                      {trackOptions.filter(track => track.id !== activeTrackId).map(track => <option key={track.id} value={track.id}>{track.label}</option>)}
+                    </select>
+                    <p className="text-xs text-gray-400 mt-1">Both tracks are previewed and burned in, each in its own style. Select a track above to style it.</p>
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <select value={translationLanguage} onChange={(e) => setTranslationLanguage(e.target.value)} disabled={isProcessing} className="flex-grow bg-gray-700 border border-gray-600 rounded-lg p-2">
+                    {TRANSLATION_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                  </select>
+                  <button onClick={handleTranslate} disabled={isProcessing} className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                    {captionTracks.some(t => t.language === translationLanguage) ? 'Translate Again' : 'Translate'}
+                  </button>
+                </div>
+                <p className="text-xs text-gray-400">Translations keep the source timing and use the selected AI provider. Translate again after editing the source captions.</p>
+              </div>
+            </div>
+          )}
+          {/* Caption Lint */}
+          {captions.length > 0 && (
+            <div className="bg-gray-800 p-4 rounded-lg">
+              <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Caption Lint</h2>
+              <CaptionLint
+                issues={lintIssues}
+                rules={lintRules}
+                disabled={isProcessing}
+                onRulesChange={setLintRules}
+                onSeek={handleSeek}
+                onFix={handleLintFix}
+              />
+            </div>
+          )}
+          {/* Find & Replace */}
+          {originalCues.length > 0 && (
+            <div className="bg-gray-800 p-4 rounded-lg">
+              <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Find &amp; Replace</h2>
+              <FindReplace
+                cues={originalCues}
+                disabled={isProcessing}
+                onApply={setOriginalCues}
+                onSeek={handleSeek}
+              />
+            </div>
+          )}
           {/* Style Editor */}
           <div className="bg-gray-800 p-4 rounded-lg">
-            <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Subtitle Style</h2>
+            <h2 className="text-xl font-semibold mb-4 border-b border-gray-700 pb-2">Subtitle Style{activeTrack ? ` (${activeTrack.label})` : ''}</h2>
             <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Presets</label>
+                <StylePresets
+                  presets={[...BUILT_IN_PRESETS, ...userPresets]}
+                  onApply={handleApplyPreset}
+                  onSave={handleSavePreset}
+                  onDelete={handleDeletePreset}
+                  onExport={handleExportPresets}
+                  onImport={handleImportPresets}
+                  onUploadFont={handleUploadFont}
+                />
+              </div>
               <div>
                 <label className="block text-sm font-medium mb-1">Font Family</label>
-                <select value={styles.fontFamily} onChange={(e) => setStyles(s => ({ ...s, fontFamily: e.target.value }))} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
+                <select value={trackStyles.fontFamily} onChange={(e) => updateStyles(s => ({ ...s, fontFamily: e.target.value }))} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
                   <option value="'The Luckiest Guy', cursive">The Luckiest Guy</option>
+                  <option value="'Montserrat', sans-serif">Montserrat Black</option>
                   <option value="Impact, sans-serif">Impact</option>
                   <option>Arial</option>
                   <option>Verdana</option>
                   <option>Times New Roman</option>
                   <option>Courier New</option>
+                  {customFonts.map(font => <option key={font.family} value={customFontFamily(font)}>{font.family}</option>)}
                 </select>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium mb-1">Font Color</label>
-                  <input type="color" value={styles.color} onChange={(e) => setStyles(s => ({ ...s, color: e.target.value }))} className="w-full h-10 bg-gray-700 border-gray-600 rounded-lg" />
+                  <input type="color" value={trackStyles.color} onChange={(e) => updateStyles(s => ({ ...s, color: e.target.value }))} className="w-full h-10 bg-gray-700 border-gray-600 rounded-lg" />
                 </div>
                 <div>
                   <label className="block text-sm font-medium mb-1">Highlight Color</label>
-                  <input type="color" value={styles.highlightColor} onChange={(e) => setStyles(s => ({ ...s, highlightColor: e.target.value }))} className="w-full h-10 bg-gray-700 border-gray-600 rounded-lg" />
+                  <input type="color" value={trackStyles.highlightColor} onChange={(e) => updateStyles(s => ({ ...s, highlightColor: e.target.value }))} className="w-full h-10 bg-gray-700 border-gray-600 rounded-lg" />
                 </div>
               </div>
-               <div>
-                <label className="block text-sm font-medium mb-1">Words per Caption ({styles.maxWordsPerCue})</label>
-                <input type="range" min="3" max="15" value={styles.maxWordsPerCue} onChange={(e) => setStyles(s => ({ ...s, maxWordsPerCue: Number(e.target.value) }))} className="w-full" />
-              </div>
+              {activeTrack ? (
+                <p className="text-sm text-gray-400">Translated captions keep the source captions' splitting and timing.</p>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Caption Splitting</label>
+                  <select
+                    value={findSegmentationPreset(styles.segmentation)?.id ?? 'custom'}
+                    onChange={(e) => {
+                      const preset = SEGMENTATION_PRESETS.find(p => p.id === e.target.value);
+                      if (preset) setStyles(s => ({ ...s, segmentation: preset.rules }));
+                    }}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2"
+                  >
+                    {SEGMENTATION_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    <option value="custom" disabled>Custom</option>
+                  </select>
+                  <details className="mt-2">
+                    <summary className="text-sm text-gray-400 cursor-pointer">Splitting rules (0 = no limit)</summary>
+                    <div className="grid grid-cols-2 gap-3 mt-2">
+                      {([
+                        ['maxWordsPerCue', 'Max words'],
+                        ['maxCharsPerLine', 'Max chars per line'],
+                        ['maxLines', 'Max lines'],
+                        ['maxGapMs', 'Break on pause (ms)'],
+                        ['minDurationMs', 'Min duration (ms)'],
+                        ['maxDurationMs', 'Max duration (ms)'],
+                      ] as const).map(([key, label]) => (
+                        <div key={key}>
+                          <label className="block text-xs font-medium mb-1">{label}</label>
+                          <input type="number" min="0" value={styles.segmentation[key]} onChange={(e) => setStyles(s => ({ ...s, segmentation: { ...s.segmentation, [key]: Math.max(0, Number(e.target.value) || 0) } }))} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-1" />
+                        </div>
+                      ))}
+                      <label className="flex items-center gap-2 text-xs col-span-2">
+                        <input type="checkbox" checked={styles.segmentation.breakOnPunctuation} onChange={(e) => setStyles(s => ({ ...s, segmentation: { ...s.segmentation, breakOnPunctuation: e.target.checked } }))} />
+                        Break after punctuation
+                      </label>
+                      <label className="flex items-center gap-2 text-xs col-span-2">
+                        <input type="checkbox" checked={styles.segmentation.keepFunctionWords} onChange={(e) => setStyles(s => ({ ...s, segmentation: { ...s.segmentation, keepFunctionWords: e.target.checked } }))} />
+                        Keep short words (the, to, of...) with the next word
+                      </label>
+                    </div>
+                  </details>
+                </div>
+              )}
               <div>
-                <label className="block text-sm font-medium mb-1">Font Size ({styles.fontSize}%)</label>
-                <input type="range" min="1" max="20" value={styles.fontSize} onChange={(e) => setStyles(s => ({ ...s, fontSize: Number(e.target.value) }))} className="w-full" />
+                <label className="block text-sm font-medium mb-1">Font Size ({trackStyles.fontSize}%)</label>
+                <input type="range" min="1" max="20" value={trackStyles.fontSize} onChange={(e) => updateStyles(s => ({ ...s, fontSize: Number(e.target.value) }))} className="w-full" />
               </div>
               <div>
-                <label className="block text-sm font-medium mb-1">Vertical Position ({styles.positionY}%)</label>
-                <input type="range" min="1" max="90" value={styles.positionY} onChange={(e) => setStyles(s => ({ ...s, positionY: Number(e.target.value) }))} className="w-full" />
+                <label className="block text-sm font-medium mb-1">Vertical Position ({trackStyles.positionY}%)</label>
+                <input type="range" min="1" max="90" value={trackStyles.positionY} onChange={(e) => updateStyles(s => ({ ...s, positionY: Number(e.target.value) }))} className="w-full" />
               </div>
               <div className="flex items-center justify-between">
                 <label className="block text-sm font-medium">Show Background</label>
-                <input type="checkbox" checked={styles.showBackground} onChange={(e) => setStyles(s => ({ ...s, showBackground: e.target.checked }))} className="w-5 h-5" />
+                <input type="checkbox" checked={trackStyles.showBackground} onChange={(e) => updateStyles(s => ({ ...s, showBackground: e.target.checked }))} className="w-5 h-5" />
               </div>
-              {styles.showBackground && (
+              {trackStyles.showBackground && (
                 <div>
                   <label className="block text-sm font-medium mb-1">Background Color</label>
-                  <input type="color" value={styles.backgroundColor} onChange={(e) => setStyles(s => ({ ...s, backgroundColor: e.target.value }))} className="w-full h-10 bg-gray-700 border-gray-600 rounded-lg" />
+                  <input type="color" value={trackStyles.backgroundColor} onChange={(e) => updateStyles(s => ({ ...s, backgroundColor: e.target.value }))} className="w-full h-10 bg-gray-700 border-gray-600 rounded-lg" />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium mb-1">Active Word Effect</label>
+                <select value={trackStyles.activeWordEffect} onChange={(e) => updateStyles(s => ({ ...s, activeWordEffect: e.target.value as ActiveWordEffect }))} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2">
+                  {ACTIVE_WORD_EFFECTS.map(effect => <option key={effect.value} value={effect.value}>{effect.label}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium">Uppercase</label>
+                <input type="checkbox" checked={trackStyles.uppercase} onChange={(e) => updateStyles(s => ({ ...s, uppercase: e.target.checked }))} className="w-5 h-5" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Letter Spacing ({trackStyles.letterSpacing}%)</label>
+                <input type="range" min="-10" max="50" value={trackStyles.letterSpacing} onChange={(e) => updateStyles(s => ({ ...s, letterSpacing: Number(e.target.value) }))} className="w-full" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Outline ({trackStyles.strokeWidth}%)</label>
+                  <input type="range" min="0" max="25" value={trackStyles.strokeWidth} onChange={(e) => updateStyles(s => ({ ...s, strokeWidth: Number(e.target.value) }))} className="w-full" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Outline Color</label>
+                  <input type="color" value={trackStyles.strokeColor} onChange={(e) => updateStyles(s => ({ ...s, strokeColor: e.target.value }))} className="w-full h-10 bg-gray-700 border-gray-600 rounded-lg" />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium">Drop Shadow</label>
+                <input type="checkbox" checked={trackStyles.showShadow} onChange={(e) => updateStyles(s => ({ ...s, showShadow: e.target.checked }))} className="w-5 h-5" />
+              </div>
+              {trackStyles.showShadow && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Color</label>
+                    <input type="color" value={trackStyles.shadowColor} onChange={(e) => updateStyles(s => ({ ...s, shadowColor: e.target.value }))} className="w-full h-10 bg-gray-700 border-gray-600 rounded-lg" />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Blur ({trackStyles.shadowBlur}%)</label>
+                    <input type="range" min="0" max="50" value={trackStyles.shadowBlur} onChange={(e) => updateStyles(s => ({ ...s, shadowBlur: Number(e.target.value) }))} className="w-full" />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Offset ({trackStyles.shadowOffset}%)</label>
+                    <input type="range" min="0" max="30" value={trackStyles.shadowOffset} onChange={(e) => updateStyles(s => ({ ...s, shadowOffset: Number(e.target.value) }))} className="w-full" />
+                  </div>
+                </div>
+              )}
+              {speakers.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Speakers</label>
+                  <SpeakerSettings
+                    speakers={speakers}
+                    names={speakerNames}
+                    styles={trackStyles}
+                    onNameChange={(speaker, name) => setSpeakerNames(names => ({ ...names, [speaker]: name }))}
+                    onStyleChange={(speaker, style) => updateStyles(s => ({ ...s, speakerStyles: { ...s.speakerStyles, [speaker]: style } }))}
+                  />
                 </div>
               )}
             </div>
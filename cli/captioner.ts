@@ -0,0 +1,276 @@
+#!/usr/bin/env node
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { GeneratedCue, SubtitleStyle, TranscriptionProviderKind, TranscriptionProviderSettings, WordTimingSource } from '../types';
+import { segmentCaptions, SEGMENTATION_PRESETS } from '../services/captionSegmenter';
+import { DEFAULT_SUBTITLE_STYLE } from '../services/captionStyles';
+import { audioCodecArgs, containerArgs, DEFAULT_EXPORT_SETTINGS, ExportQuality, ExportSettings, getVideoBitrate, VideoExportFormat, videoCodecArgs } from '../services/exportFormats';
+import { validateCues } from '../services/cueValidator';
+import { isAbortError } from '../services/retry';
+import { parseSubtitleFile } from '../services/subtitleParser';
+import { serializeCaptions, SubtitleFormat } from '../services/subtitleSerializer';
+import { transcribeInChunks } from '../services/transcriptionPipeline';
+import { createTranscriptionProvider, TRANSCRIPTION_PROVIDERS } from '../services/transcriptionProvider';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_TRANSLATION_MODEL } from '../services/openAiCompatibleService';
+import { parseVocabulary, whisperPromptTerms } from '../services/vocabulary';
+import { hasFfmpeg, nodeMediaAdapter, runCommand } from './nodeMedia';
+
+const USAGE = `Usage: captioner <command> <input> [options]
+
+Commands:
+  transcribe <media>   Transcribe a video or audio file into word-timed cues
+  segment <cues>       Group cues into captions with the style's splitting rules
+  export <cues>        Write captions as SRT, VTT, ASS or JSON
+  render <video>       Burn captions into a video with ffmpeg (needs --captions)
+
+Cues can be the JSON written by transcribe or segment, an exported project, or an SRT, VTT or ASS file.
+
+Options:
+  -o, --output <path>        Output file (default: next to the input)
+  -f, --format <format>      json, srt, vtt or ass (transcribe: json, export: srt)
+      --captions <path>      Cues to burn in (render)
+      --style <path>         JSON with style fields, an exported project or exported style presets
+      --preset <id>          Caption splitting preset: ${SEGMENTATION_PRESETS.map(p => p.id).join(', ')}
+      --provider <kind>      ${TRANSCRIPTION_PROVIDERS.map(p => p.kind).join(' or ')} (default: gemini)
+      --model <name>         Transcription model (default: the provider's default)
+      --api-key <key>        API key (default: GEMINI_API_KEY or OPENAI_API_KEY)
+      --base-url <url>       Endpoint of an OpenAI-compatible server
+      --timing <source>      ai or audio: where word timings come from (default: ai)
+      --speakers             Detect speakers
+      --vocabulary <terms>   Comma-separated names and terms to spell as written
+      --video-format <fmt>   mp4 or webm (render, default: mp4)
+      --quality <quality>    low, medium or high (render, default: medium)
+  -h, --help                 Show this help
+`;
+
+const OPTIONS = {
+    output: { type: 'string', short: 'o' },
+    format: { type: 'string', short: 'f' },
+    captions: { type: 'string' },
+    style: { type: 'string' },
+    preset: { type: 'string' },
+    provider: { type: 'string' },
+    model: { type: 'string' },
+    'api-key': { type: 'string' },
+    'base-url': { type: 'string' },
+    timing: { type: 'string' },
+    speakers: { type: 'boolean' },
+    vocabulary: { type: 'string' },
+    'video-format': { type: 'string' },
+    quality: { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS, allowPositionals: true }>>['values'];
+
+const SUBTITLE_FORMATS: (SubtitleFormat | 'json')[] = ['json', 'srt', 'vtt', 'ass'];
+
+// Used for ASS exports, whose positions and font sizes are relative to a frame size
+const DEFAULT_FRAME = { width: 1920, height: 1080 };
+
+// Only used to pick a bitrate when ffprobe cannot read the frame rate
+const FALLBACK_FRAME_RATE = 30;
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const pick = <T extends string>(value: string | undefined, allowed: readonly T[], name: string, fallback: T): T => {
+    if (value === undefined) return fallback;
+    if (!(allowed as readonly string[]).includes(value)) {
+        throw new Error(`Unknown ${name} "${value}". Use one of: ${allowed.join(', ')}.`);
+    }
+    return value as T;
+};
+
+// Always absolute, since render runs ffmpeg in a temporary folder
+const outputPath = (input: string, options: Options, suffix: string) =>
+    resolve(options.output ?? join(dirname(input), `${basename(input, extname(input))}${suffix}`));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readJson = async (path: string): Promise<unknown> => {
+    const content = await readFile(path, 'utf8');
+    try {
+        return JSON.parse(content);
+    } catch (error) {
+        throw new Error(`${path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+/**
+ * Reads cues from our own JSON (a cue list or an exported project) or any supported subtitle file.
+ */
+const loadCues = async (path: string): Promise<GeneratedCue[]> => {
+    if (extname(path).toLowerCase() !== '.json') {
+        return parseSubtitleFile(path, await readFile(path, 'utf8'));
+    }
+    const data = await readJson(path);
+    const cues = Array.isArray(data) ? data : isRecord(data) ? data.originalCues : undefined;
+    if (!Array.isArray(cues)) throw new Error(`${path} has no cues.`);
+    // Drops malformed words and fixes timing, so bad files fail here rather than in the segmenter
+    const valid = validateCues(cues, Number.POSITIVE_INFINITY).cues;
+    if (valid.length === 0) throw new Error(`${path} has no cues with valid words.`);
+    return valid;
+};
+
+/**
+ * The default style, changed by a style file and then by --preset. The file can hold style fields,
+ * an exported project, or exported style presets, of which the first is used.
+ */
+const loadStyles = async (options: Options): Promise<SubtitleStyle> => {
+    let styles = DEFAULT_SUBTITLE_STYLE;
+    if (options.style) {
+        const data = await readJson(options.style);
+        const source = !isRecord(data) ? undefined
+            : data.originalCues ? data.styles
+            : Array.isArray(data.presets) ? (data.presets[0] as { style?: unknown } | undefined)?.style
+            : data;
+        if (!isRecord(source)) throw new Error(`${options.style} has no style.`);
+        const saved = source as Partial<SubtitleStyle>;
+        styles = { ...styles, ...saved, segmentation: { ...styles.segmentation, ...saved.segmentation } };
+    }
+    if (options.preset) {
+        const presetId = pick(options.preset, SEGMENTATION_PRESETS.map(p => p.id), 'preset', 'standard');
+        styles = { ...styles, segmentation: SEGMENTATION_PRESETS.find(p => p.id === presetId)!.rules };
+    }
+    return styles;
+};
+
+const providerSettings = (options: Options): TranscriptionProviderSettings => {
+    const kind = pick<TranscriptionProviderKind>(options.provider, TRANSCRIPTION_PROVIDERS.map(p => p.kind), 'provider', 'gemini');
+    const apiKey = options['api-key']
+        ?? (kind === 'gemini' ? process.env.GEMINI_API_KEY ?? process.env.API_KEY : process.env.OPENAI_API_KEY)
+        ?? '';
+    if (!apiKey && kind === 'gemini') {
+        throw new Error('No Gemini API key. Pass --api-key or set GEMINI_API_KEY.');
+    }
+    const vocabulary = parseVocabulary(options.vocabulary ?? '');
+    const promptTerms = whisperPromptTerms(vocabulary);
+    if (kind === 'openai-compatible' && promptTerms.length < vocabulary.length) {
+        log(`Whisper's prompt is limited, so only the first ${promptTerms.length} of ${vocabulary.length} vocabulary terms are sent.`);
+    }
+    return {
+        kind,
+        model: options.model ?? TRANSCRIPTION_PROVIDERS.find(p => p.kind === kind)!.defaultModel,
+        apiKey,
+        baseUrl: options['base-url'] ?? (kind === 'openai-compatible' ? DEFAULT_OPENAI_BASE_URL : ''),
+        translationModel: kind === 'openai-compatible' ? DEFAULT_OPENAI_TRANSLATION_MODEL : '',
+        detectSpeakers: options.speakers ?? false,
+        vocabulary,
+    };
+};
+
+const writeCaptions = async (cues: GeneratedCue[], format: SubtitleFormat | 'json', styles: SubtitleStyle, path: string) => {
+    const captions = segmentCaptions(cues, styles.segmentation);
+    const content = format === 'json'
+        ? JSON.stringify(captions, null, 2)
+        : serializeCaptions(format, captions, styles, DEFAULT_FRAME);
+    await writeFile(path, content);
+    log(`Wrote ${captions.length} captions to ${path}`);
+};
+
+const transcribe = async (input: string, options: Options, signal: AbortSignal) => {
+    const format = pick(options.format, SUBTITLE_FORMATS, 'format', 'json');
+    const styles = await loadStyles(options);
+    const settings = providerSettings(options);
+    const timingSource = pick<WordTimingSource>(options.timing, ['ai', 'audio'], 'timing source', 'ai');
+
+    const audio = await nodeMediaAdapter.extractAudio(input, log, signal);
+    const { cues } = await transcribeInChunks(audio, createTranscriptionProvider(settings), timingSource, log, () => {}, signal);
+    if (cues.length === 0) {
+        throw new Error('The AI did not return any usable captions.');
+    }
+
+    const path = outputPath(input, options, `.${format}`);
+    if (format === 'json') {
+        // Word-timed cues as transcribed, so they can be re-split later with any style
+        await writeFile(path, JSON.stringify(cues, null, 2));
+        log(`Wrote ${cues.length} cues to ${path}`);
+    } else {
+        await writeCaptions(cues, format, styles, path);
+    }
+};
+
+const segment = async (input: string, options: Options) => {
+    await writeCaptions(await loadCues(input), 'json', await loadStyles(options), outputPath(input, options, '.captions.json'));
+};
+
+const exportCaptions = async (input: string, options: Options) => {
+    const format = pick(options.format, SUBTITLE_FORMATS, 'format', 'srt');
+    // A subtitle file exported in its own format would overwrite itself
+    const suffix = extname(input).toLowerCase() === `.${format}` ? `.captions.${format}` : `.${format}`;
+    await writeCaptions(await loadCues(input), format, await loadStyles(options), outputPath(input, options, suffix));
+};
+
+const probeFrameRate = async (path: string): Promise<number> => {
+    const output = await runCommand('ffprobe', ['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=r_frame_rate', '-of', 'csv=p=0', path]);
+    const [numerator, denominator] = output.toString().trim().split('/').map(Number);
+    const frameRate = denominator ? numerator / denominator : numerator;
+    return frameRate > 0 ? frameRate : FALLBACK_FRAME_RATE;
+};
+
+/**
+ * Burns the captions in with ffmpeg's ASS filter. The word highlight is carried by ASS karaoke
+ * tags, so animated effects render as a color change.
+ */
+const render = async (input: string, options: Options, signal: AbortSignal) => {
+    if (!options.captions) throw new Error('render needs --captions <path>.');
+    if (!await hasFfmpeg()) throw new Error('render needs ffmpeg and ffprobe on the PATH.');
+
+    const settings: ExportSettings = {
+        ...DEFAULT_EXPORT_SETTINGS,
+        format: pick<VideoExportFormat>(options['video-format'], ['mp4', 'webm'], 'video format', DEFAULT_EXPORT_SETTINGS.format),
+        quality: pick<ExportQuality>(options.quality, ['low', 'medium', 'high'], 'quality', DEFAULT_EXPORT_SETTINGS.quality),
+    };
+    const styles = await loadStyles(options);
+    const captions = segmentCaptions(await loadCues(options.captions), styles.segmentation);
+    const { width, height } = await nodeMediaAdapter.readVideoMetadata(input);
+    const videoBitrate = getVideoBitrate(settings, width, height, await probeFrameRate(input));
+    const path = outputPath(input, options, `_captioned.${settings.format}`);
+
+    // ffmpeg runs in a temporary folder so the filter can name the subtitle file without escaping a path
+    const workDir = await mkdtemp(join(tmpdir(), 'captioner-'));
+    try {
+        await writeFile(join(workDir, 'captions.ass'), serializeCaptions('ass', captions, styles, { width, height }));
+        log(`Rendering ${captions.length} captions with ffmpeg...`);
+        await runCommand('ffmpeg', [
+            '-y', '-v', 'error', '-i', resolve(input), '-vf', 'ass=captions.ass',
+            ...videoCodecArgs(settings, videoBitrate), ...audioCodecArgs(settings), ...containerArgs(settings), path,
+        ], signal, workDir);
+        log(`Wrote ${path}`);
+    } finally {
+        await rm(workDir, { recursive: true, force: true });
+    }
+};
+
+const main = async () => {
+    const { values: options, positionals } = parseArgs({ options: OPTIONS, allowPositionals: true });
+    const [command, input] = positionals;
+    if (options.help || !command) {
+        process.stdout.write(USAGE);
+        return;
+    }
+    if (!input) throw new Error(`${command} needs an input file.`);
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    switch (command) {
+        case 'transcribe':
+            return transcribe(input, options, controller.signal);
+        case 'segment':
+            return segment(input, options);
+        case 'export':
+            return exportCaptions(input, options);
+        case 'render':
+            return render(input, options, controller.signal);
+        default:
+            throw new Error(`Unknown command "${command}". Run captioner --help for the commands.`);
+    }
+};
+
+main().catch(error => {
+    log(`captioner: ${isAbortError(error) ? 'Cancelled.' : error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,92 @@
+import { spawn } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { MediaAdapter, PcmAudio, VideoMetadata } from '../types';
+import { decodeWav } from '../services/audioEncoding';
+import { createAbortError } from '../services/retry';
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * Runs a command and returns what it wrote to stdout. Fails with the end of stderr when the
+ * command exits with an error, and kills it when the signal aborts.
+ */
+export const runCommand = (command: string, args: string[], signal?: AbortSignal, cwd?: string): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError());
+        const child = spawn(command, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+        const stdout: Buffer[] = [];
+        let stderr = '';
+        const onAbort = () => child.kill();
+        signal?.addEventListener('abort', onAbort, { once: true });
+        child.stdout.on('data', (data: Buffer) => stdout.push(data));
+        child.stderr.on('data', (data: Buffer) => { stderr = (stderr + data.toString()).slice(-2000); });
+        child.on('error', error => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(error);
+        });
+        child.on('close', code => {
+            signal?.removeEventListener('abort', onAbort);
+            if (signal?.aborted) return reject(createAbortError());
+            if (code !== 0) return reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+            resolve(Buffer.concat(stdout));
+        });
+    });
+
+let ffmpegAvailable: Promise<boolean> | null = null;
+
+export const hasFfmpeg = (): Promise<boolean> => {
+    ffmpegAvailable = ffmpegAvailable ?? runCommand('ffmpeg', ['-version']).then(() => true, () => false);
+    return ffmpegAvailable;
+};
+
+/**
+ * Reads media from file paths with the ffmpeg and ffprobe binaries. Without ffmpeg, only
+ * WAV audio can be read.
+ */
+export const nodeMediaAdapter: MediaAdapter<string> = {
+    async extractAudio(path, setProgress, signal): Promise<PcmAudio> {
+        if (!await hasFfmpeg()) {
+            if (extname(path).toLowerCase() !== '.wav') {
+                throw new Error(`Reading ${extname(path) || 'this'} files needs ffmpeg. Install it, or pass a WAV file.`);
+            }
+            setProgress('Reading WAV audio...');
+            const data = await readFile(path);
+            return decodeWav(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+        }
+
+        setProgress('Decoding audio with ffmpeg...');
+        const output = await runCommand('ffmpeg',
+            ['-v', 'error', '-i', path, '-vn', '-ac', '1', '-ar', `${SAMPLE_RATE}`, '-f', 'f32le', '-'], signal);
+        // Copied so the samples start on a 4-byte boundary
+        const samples = new Float32Array(output.buffer.slice(output.byteOffset, output.byteOffset + output.byteLength - output.byteLength % 4));
+        return {
+            sampleRate: SAMPLE_RATE,
+            length: samples.length,
+            duration: samples.length / SAMPLE_RATE,
+            getChannelData: () => samples,
+        };
+    },
+
+    async readVideoMetadata(path): Promise<VideoMetadata> {
+        const output = await runCommand('ffprobe', [
+            '-v', 'error', '-select_streams', 'v:0',
+            '-show_entries', 'stream=width,height:stream_tags=rotate:stream_side_data=rotation:format=duration', '-of', 'json', path,
+        ]);
+        const probe = JSON.parse(output.toString());
+        const stream = probe.streams?.[0];
+        if (!stream?.width || !stream?.height) {
+            throw new Error(`${path} has no video stream.`);
+        }
+        // Phone footage is stored sideways with a rotation that ffmpeg applies when rendering, so the
+        // captions are laid out for the upright size. Newer ffprobe reports it as side data, older as a tag.
+        const sideData: { rotation?: number }[] = stream.side_data_list ?? [];
+        const rotation = Number(sideData.find(data => data.rotation !== undefined)?.rotation ?? stream.tags?.rotate ?? 0);
+        const quarterTurn = Math.abs(Math.round(rotation / 90)) % 2 === 1;
+        return {
+            width: quarterTurn ? stream.height : stream.width,
+            height: quarterTurn ? stream.width : stream.height,
+            duration: Number(probe.format?.duration) || 0,
+        };
+    },
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TranscriptionStatus } from '../types';
+import {
+  BatchJob,
+  BatchSettings,
+  createBatchJob,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  processBatchJob,
+  runWithConcurrency,
+  zipBatchOutputs,
+} from '../services/batchQueue';
+import { isAbortError } from '../services/retry';
+
+interface BatchQueueProps {
+  // Everything but the choices made in the queue itself comes from the main settings
+  settings: Omit<BatchSettings, 'renderVideo'>;
+  disabled?: boolean;
+}
+
+const smallButton = 'bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded px-2 py-1 text-xs';
+
+const STATUS_COLORS: Partial<Record<TranscriptionStatus, string>> = {
+  [TranscriptionStatus.COMPLETED]: 'text-green-400',
+  [TranscriptionStatus.ERROR]: 'text-red-400',
+  [TranscriptionStatus.IDLE]: 'text-gray-400',
+};
+
+/**
+ * Captions many videos with the current style and provider settings. Jobs run a few at a time,
+ * each reports its own progress, failed jobs can be retried, and all results download as one ZIP.
+ */
+export const BatchQueue = ({ settings, disabled }: BatchQueueProps) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [renderVideo, setRenderVideo] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const jobsRef = useRef<BatchJob[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Workers read a job when they start it, so they see cues saved by an earlier attempt
+  useEffect(() => {
+    jobsRef.current = jobs;
+  }, [jobs]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updateJob = (id: string, update: Partial<BatchJob>) => {
+    setJobs(current => current.map(job => job.id === id ? { ...job, ...update } : job));
+  };
+
+  const addFiles = (files: FileList | null) => {
+    const videos = Array.from(files ?? []).filter(file => file.type.startsWith('video/'));
+    setJobs(current => [...current, ...videos.map(createBatchJob)]);
+  };
+
+  const run = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const batchSettings: BatchSettings = { ...settings, renderVideo };
+    ids.forEach(id => updateJob(id, { status: TranscriptionStatus.IDLE, message: 'Queued', outputs: [] }));
+    setIsRunning(true);
+
+    await runWithConcurrency(ids, concurrency, async id => {
+      const job = jobsRef.current.find(j => j.id === id);
+      if (!job || controller.signal.aborted) return;
+      try {
+        const outputs = await processBatchJob(job, batchSettings, update => updateJob(id, update), controller.signal);
+        updateJob(id, { status: TranscriptionStatus.COMPLETED, message: 'Done', outputs });
+      } catch (error) {
+        if (isAbortError(error)) {
+          updateJob(id, { status: TranscriptionStatus.IDLE, message: 'Cancelled' });
+          return;
+        }
+        console.error(error);
+        updateJob(id, { status: TranscriptionStatus.ERROR, message: error instanceof Error ? error.message : 'An unknown error occurred.' });
+      }
+    });
+
+    // Jobs that never started stay waiting for the next run
+    if (controller.signal.aborted) {
+      setJobs(current => current.map(job => ids.includes(job.id) && job.message === 'Queued' ? { ...job, message: 'Cancelled' } : job));
+    }
+    setIsRunning(false);
+  };
+
+  const handleStart = () => run(jobs.filter(job => job.status !== TranscriptionStatus.COMPLETED).map(job => job.id));
+
+  const handleDownload = async () => {
+    setDownloadError(null);
+    try {
+      const outputs = jobs.flatMap(job => job.outputs);
+      const url = URL.createObjectURL(await zipBatchOutputs(outputs));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'captioned_videos.zip';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      setDownloadError(`Could not create the ZIP: ${error instanceof Error ? error.message : 'An unknown error occurred.'}`);
+    }
+  };
+
+  const finished = jobs.filter(job => job.status === TranscriptionStatus.COMPLETED).length;
+  const pending = jobs.length - finished;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <label
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => { e.preventDefault(); setIsDragging(false); if (!isRunning) addFiles(e.dataTransfer.files); }}
+        className={`block border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${isDragging ? 'border-blue-400 bg-gray-700' : 'border-gray-600 hover:border-gray-500'}`}
+      >
+        Drop videos here or click to add them
+        <input type="file" multiple accept="video/*" className="hidden" disabled={isRunning} onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+      </label>
+      <p className="text-gray-400">Every video uses the current caption style, AI provider, word timing and subtitle format.</p>
+      <div className="grid grid-cols-2 gap-2">
+        <label>
+          <span className="block text-gray-400">Videos at once</span>
+          <input type="number" min="1" max={MAX_BATCH_CONCURRENCY} value={concurrency} disabled={isRunning}
+            onChange={(e) => setConcurrency(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg p-1" />
+        </label>
+        <label className="flex items-center gap-2 self-end pb-1">
+          <input type="checkbox" checked={renderVideo} disabled={isRunning} onChange={(e) => setRenderVideo(e.target.checked)} />
+          Render videos
+        </label>
+      </div>
+      {jobs.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto space-y-1">
+          {jobs.map(job => (
+            <li key={job.id} className="flex items-center gap-2 bg-gray-700 rounded p-2">
+              <div className="flex-grow min-w-0">
+                <p className="truncate">{job.file.name}</p>
+                <p className={`text-xs truncate ${STATUS_COLORS[job.status] ?? 'text-blue-300'}`} title={job.message}>{job.message}</p>
+              </div>
+              {job.status === TranscriptionStatus.ERROR && (
+                <button onClick={() => run([job.id])} disabled={isRunning || disabled} className={smallButton}>Retry</button>
+              )}
+              <button onClick={() => setJobs(current => current.filter(j => j.id !== job.id))} disabled={isRunning} className={smallButton}>Remove</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        {isRunning ? (
+          <button onClick={() => abortControllerRef.current?.abort()} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+            Cancel
+          </button>
+        ) : (
+          <button onClick={handleStart} disabled={disabled || pending === 0} className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors">
+            Start ({pending})
+          </button>
+        )}
+        <button onClick={handleDownload} disabled={isRunning || finished === 0} className="bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Download ZIP ({finished})
+        </button>
+      </div>
+      {downloadError && <p className="text-xs text-red-400">{downloadError}</p>}
+    </div>
+  );
+};
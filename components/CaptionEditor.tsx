@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { GeneratedCue } from '../types';
+import {
+  setWordText,
+  setWordBoundary,
+  setCueBoundary,
+  shiftCue,
+  splitCue,
+  mergeWithNextCue,
+  deleteCue,
+} from '../services/cueEditing';
+
+interface CaptionEditorProps {
+  cues: GeneratedCue[];
+  currentTime: number;
+  disabled?: boolean;
+  onChange: (cues: GeneratedCue[]) => void;
+  onSeek: (time: number) => void;
+}
+
+// How far the nudge buttons move a boundary, in seconds
+const NUDGE_STEP = 0.05;
+
+/**
+ * Number field for a time in seconds that only commits on blur or Enter,
+ * so clamping in the edit helpers does not fight the user while typing.
+ */
+const TimeInput = ({ value, onCommit, disabled }: { value: number, onCommit: (value: number) => void, disabled?: boolean }) => (
+  <input
+    key={value}
+    type="number"
+    step="0.01"
+    min="0"
+    defaultValue={value.toFixed(2)}
+    disabled={disabled}
+    onBlur={(e) => {
+      const parsed = parseFloat(e.target.value);
+      if (!Number.isNaN(parsed) && parsed !== value) onCommit(parsed);
+    }}
+    onKeyDown={(e) => {
+      if (e.key === 'Enter') e.currentTarget.blur();
+    }}
+    className="w-20 bg-gray-700 border border-gray-600 rounded p-1 text-sm"
+  />
+);
+
+const smallButton = 'bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded px-2 py-1 text-xs';
+
+export const CaptionEditor = ({ cues, currentTime, disabled, onChange, onSeek }: CaptionEditorProps) => {
+  const [selected, setSelected] = useState<{ cueIndex: number, wordIndex: number } | null>(null);
+
+  const selectedWord = selected ? cues[selected.cueIndex]?.words[selected.wordIndex] : undefined;
+
+  const apply = (updated: GeneratedCue[]) => {
+    if (updated !== cues) onChange(updated);
+  };
+
+  if (cues.length === 0) {
+    return <p className="text-sm text-gray-400">Generate or import captions to edit them here.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {selected && selectedWord && (
+        <div className="bg-gray-900 rounded-lg p-3 space-y-2 sticky top-0 z-10">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold">Word: "{selectedWord.word}"</span>
+            <button className={smallButton} onClick={() => setSelected(null)}>Close</button>
+          </div>
+          {(['start', 'end'] as const).map(edge => {
+            const time = edge === 'start' ? selectedWord.startTime : selectedWord.endTime;
+            const setTime = (t: number) => apply(setWordBoundary(cues, selected.cueIndex, selected.wordIndex, edge, t));
+            return (
+              <div key={edge} className="flex items-center gap-2">
+                <span className="text-xs w-10 capitalize">{edge}</span>
+                <button className={smallButton} disabled={disabled} onClick={() => setTime(time - NUDGE_STEP)}>-</button>
+                <TimeInput value={time} onCommit={setTime} disabled={disabled} />
+                <button className={smallButton} disabled={disabled} onClick={() => setTime(time + NUDGE_STEP)}>+</button>
+                <button className={smallButton} onClick={() => setTime(currentTime)} disabled={disabled}>Set to playhead</button>
+              </div>
+            );
+          })}
+          <button
+            className={smallButton}
+            disabled={disabled || selected.wordIndex === 0}
+            onClick={() => {
+              apply(splitCue(cues, selected.cueIndex, selected.wordIndex));
+              setSelected(null);
+            }}
+          >
+            Split cue before this word
+          </button>
+        </div>
+      )}
+
+      {cues.map((cue, cueIndex) => {
+        const isActive = currentTime >= cue.startTime && currentTime <= cue.endTime;
+        return (
+          <div key={cueIndex} className={`rounded-lg p-2 border ${isActive ? 'border-blue-500 bg-gray-700/50' : 'border-gray-700'}`}>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <button className="text-xs text-gray-400 hover:text-white" onClick={() => onSeek(cue.startTime)}>#{cueIndex + 1}</button>
+              <TimeInput value={cue.startTime} onCommit={(t) => apply(setCueBoundary(cues, cueIndex, 'start', t))} disabled={disabled} />
+              <span className="text-xs text-gray-400">→</span>
+              <TimeInput value={cue.endTime} onCommit={(t) => apply(setCueBoundary(cues, cueIndex, 'end', t))} disabled={disabled} />
+              <button className={smallButton} disabled={disabled} onClick={() => apply(shiftCue(cues, cueIndex, -NUDGE_STEP))} title="Shift cue earlier">«</button>
+              <button className={smallButton} disabled={disabled} onClick={() => apply(shiftCue(cues, cueIndex, NUDGE_STEP))} title="Shift cue later">»</button>
+              <button className={smallButton} disabled={disabled || cueIndex === cues.length - 1} onClick={() => { apply(mergeWithNextCue(cues, cueIndex)); setSelected(null); }}>Merge ↓</button>
+              <button className={smallButton} disabled={disabled} onClick={() => { apply(deleteCue(cues, cueIndex)); setSelected(null); }}>Delete</button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {cue.words.map((word, wordIndex) => {
+                const isSelected = selected?.cueIndex === cueIndex && selected.wordIndex === wordIndex;
+                return (
+                  <input
+                    key={`${wordIndex}-${word.word}`}
+                    defaultValue={word.word}
+                    disabled={disabled}
+                    size={Math.max(2, word.word.length)}
+                    onFocus={() => {
+                      setSelected({ cueIndex, wordIndex });
+                      onSeek(word.startTime);
+                    }}
+                    onBlur={(e) => {
+                      if (e.target.value !== word.word) {
+                        apply(setWordText(cues, cueIndex, wordIndex, e.target.value));
+                        setSelected(null);
+                      }
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    className={`bg-gray-700 rounded px-1 text-sm border ${isSelected ? 'border-yellow-400' : 'border-transparent'}`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { LintFix, LintIssue, LintRules } from '../services/captionLinter';
+
+interface CaptionLintProps {
+  issues: LintIssue[];
+  rules: LintRules;
+  disabled?: boolean;
+  onRulesChange: (rules: LintRules) => void;
+  onSeek: (time: number) => void;
+  onFix: (fixes: LintFix[]) => void;
+}
+
+const RULE_FIELDS: { key: keyof LintRules, label: string }[] = [
+  { key: 'maxCharsPerSecond', label: 'Max characters/s' },
+  { key: 'maxCharsPerLine', label: 'Max characters/line' },
+  { key: 'minDurationMs', label: 'Min duration (ms)' },
+  { key: 'maxDurationMs', label: 'Max duration (ms)' },
+  { key: 'minGapMs', label: 'Min gap (ms)' },
+];
+
+const smallButton = 'bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded px-2 py-1 text-xs';
+
+/**
+ * Lists caption problems in time order. Clicking an issue seeks the player to it, and issues
+ * that can be corrected automatically have a fix button.
+ */
+export const CaptionLint = ({ issues, rules, disabled, onRulesChange, onSeek, onFix }: CaptionLintProps) => {
+  const [showRules, setShowRules] = useState(false);
+  const sorted = [...issues].sort((a, b) => a.time - b.time);
+  const fixable = sorted.filter(issue => issue.fix).map(issue => issue.fix!);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className={issues.length > 0 ? 'text-yellow-400' : 'text-green-400'}>
+          {issues.length === 0 ? 'No problems found.' : `${issues.length} problem${issues.length === 1 ? '' : 's'} found.`}
+        </span>
+        <div className="flex gap-2">
+          <button onClick={() => setShowRules(v => !v)} className={smallButton}>Limits</button>
+          <button onClick={() => onFix(fixable)} disabled={disabled || fixable.length === 0} className={smallButton}>
+            Fix all ({fixable.length})
+          </button>
+        </div>
+      </div>
+      {showRules && (
+        <div className="grid grid-cols-2 gap-2 text-sm mb-2">
+          {RULE_FIELDS.map(({ key, label }) => (
+            <label key={key}>
+              <span className="block text-gray-400">{label}</span>
+              <input type="number" min="1" value={rules[key]} onChange={(e) => onRulesChange({ ...rules, [key]: Math.max(1, Number(e.target.value) || 1) })} className="w-full bg-gray-700 border border-gray-600 rounded-lg p-1" />
+            </label>
+          ))}
+        </div>
+      )}
+      {sorted.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto space-y-1 text-sm">
+          {sorted.map((issue, i) => (
+            <li key={`${issue.kind}-${issue.captionIndex}-${i}`} className="flex items-center gap-2 bg-gray-700 rounded p-2">
+              <button onClick={() => onSeek(issue.time)} className="flex-grow text-left hover:text-blue-300" title="Show in player">
+                <span className="text-gray-400 mr-2">{issue.time.toFixed(2)}s</span>
+                <span className={issue.severity === 'error' ? 'text-red-400' : 'text-gray-200'}>{issue.message}</span>
+              </button>
+              {issue.fix && (
+                <button onClick={() => onFix([issue.fix!])} disabled={disabled} className={smallButton}>{issue.fix.label}</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
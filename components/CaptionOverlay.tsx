@@ -0,0 +1,45 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CaptionLayer } from '../types';
+import { drawCaptionLayers } from '../services/videoRenderer';
+import { captionFont } from '../services/captionLayout';
+
+interface CaptionOverlayProps {
+  layers: CaptionLayer[];
+  currentTime: number;
+  videoDimensions: { width: number, height: number };
+}
+
+/**
+ * Draws the active captions over the player with the same code the renderers use. The canvas has
+ * the video's own resolution and is scaled with the player, so the preview matches the export.
+ */
+export const CaptionOverlay = ({ layers, currentTime, videoDimensions }: CaptionOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Bumped when a web font finishes loading, since text drawn before that used a fallback font
+  const [fontVersion, setFontVersion] = useState(0);
+  const fonts = [...new Set(layers.map(layer => captionFont(layer.styles, videoDimensions.height).font))];
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(fonts.map(font => document.fonts.load(font)))
+      .then(() => { if (!cancelled) setFontVersion(v => v + 1); })
+      .catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [fonts.join('|')]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    drawCaptionLayers(ctx, layers, currentTime, videoDimensions.height);
+  }, [layers, currentTime, videoDimensions, fontVersion]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={videoDimensions.width}
+      height={videoDimensions.height}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedCue } from '../types';
+import { applyWordMatches, DEFAULT_FIND_REPLACE_OPTIONS, findWordMatches, FindReplaceOptions, WordMatch } from '../services/findReplace';
+
+interface FindReplaceProps {
+  cues: GeneratedCue[];
+  disabled: boolean;
+  onApply: (cues: GeneratedCue[]) => void;
+  onSeek: (time: number) => void;
+}
+
+const matchKey = (match: WordMatch) => `${match.cueIndex}:${match.wordIndex}`;
+
+/**
+ * Replaces text in the transcript's words, listing every match first so single matches can be
+ * left out. Only word text changes; timings stay as they are.
+ */
+export const FindReplace = ({ cues, disabled, onApply, onSeek }: FindReplaceProps) => {
+  const [options, setOptions] = useState<FindReplaceOptions>(DEFAULT_FIND_REPLACE_OPTIONS);
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+
+  const { matches, error } = useMemo(() => {
+    try {
+      return { matches: findWordMatches(cues, options), error: null };
+    } catch (e) {
+      return { matches: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [cues, options]);
+  const selected = matches.filter(match => !skipped.has(matchKey(match)));
+
+  const update = (changes: Partial<FindReplaceOptions>) => {
+    setOptions(o => ({ ...o, ...changes }));
+    setSkipped(new Set());
+  };
+
+  const toggle = (match: WordMatch) => setSkipped(keys => {
+    const next = new Set(keys);
+    if (!next.delete(matchKey(match))) next.add(matchKey(match));
+    return next;
+  });
+
+  const apply = () => {
+    onApply(applyWordMatches(cues, selected));
+    setSkipped(new Set());
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        value={options.find}
+        placeholder={options.regex ? 'Regular expression' : 'Find'}
+        onChange={(e) => update({ find: e.target.value })}
+        className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-sm"
+      />
+      <input
+        value={options.replace}
+        placeholder={options.regex ? 'Replace with ($1 for groups)' : 'Replace with'}
+        onChange={(e) => update({ replace: e.target.value })}
+        className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-sm"
+      />
+      <div className="flex flex-wrap gap-3 text-sm">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={options.matchCase} onChange={(e) => update({ matchCase: e.target.checked })} />
+          Match case
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={options.wholeWord} onChange={(e) => update({ wholeWord: e.target.checked })} />
+          Whole word
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={options.regex} onChange={(e) => update({ regex: e.target.checked })} />
+          Regex
+        </label>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {options.find && !error && (
+        <p className="text-sm text-gray-400">
+          {matches.length === 0 ? 'No matches.' : `${matches.length} ${matches.length === 1 ? 'match' : 'matches'}, ${selected.length} selected`}
+        </p>
+      )}
+      {matches.length > 0 && (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {matches.map(match => (
+            <li key={matchKey(match)} className="flex items-center gap-2 bg-gray-700 rounded px-2 py-1 text-sm">
+              <input type="checkbox" checked={!skipped.has(matchKey(match))} onChange={() => toggle(match)} />
+              <button onClick={() => onSeek(cues[match.cueIndex].words[match.wordIndex].startTime)} className="text-gray-400 hover:underline">
+                {cues[match.cueIndex].words[match.wordIndex].startTime.toFixed(2)}s
+              </button>
+              <span className="line-through text-gray-400">{match.before}</span>
+              <span>→</span>
+              <span className="text-green-400">{match.after}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        onClick={apply}
+        disabled={disabled || selected.length === 0}
+        className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded px-2 py-1 text-sm w-full"
+      >
+        {selected.length === 0 ? 'Replace' : `Replace ${selected.length} ${selected.length === 1 ? 'word' : 'words'}`}
+      </button>
+    </div>
+  );
+};
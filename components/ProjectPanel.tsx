@@ -0,0 +1,60 @@
+import React from 'react';
+import { ProjectSummary } from '../services/project';
+
+interface ProjectPanelProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const smallButton = 'bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded px-2 py-1 text-xs';
+
+/**
+ * Recent projects from the browser's storage, with export and import of project files.
+ */
+export const ProjectPanel = ({ projects, currentProjectId, disabled, onOpen, onDelete, onExport, onImport }: ProjectPanelProps) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={onExport} disabled={disabled || !currentProjectId} className="bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors text-sm">
+        Export Project
+      </button>
+      <label className={`bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors text-center text-sm ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-500 cursor-pointer'}`}>
+        Import Project
+        <input
+          type="file"
+          className="hidden"
+          accept=".json,application/json"
+          disabled={disabled}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Reset the input so the same file can be picked again
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+      </label>
+    </div>
+    {projects.length === 0 ? (
+      <p className="text-sm text-gray-400">Projects are saved in this browser as you work and will be listed here.</p>
+    ) : (
+      <ul className="max-h-64 overflow-y-auto space-y-1 text-sm">
+        {projects.map(project => (
+          <li key={project.id} className={`flex items-center gap-2 rounded p-2 ${project.id === currentProjectId ? 'bg-blue-900' : 'bg-gray-700'}`}>
+            <div className="flex-grow min-w-0">
+              <p className="truncate">{project.name}</p>
+              <p className="text-xs text-gray-400">
+                {project.cueCount} cue{project.cueCount === 1 ? '' : 's'} · {new Date(project.updatedAt).toLocaleString()}
+              </p>
+            </div>
+            <button onClick={() => onOpen(project.id)} disabled={disabled || project.id === currentProjectId} className={smallButton}>Open</button>
+            <button onClick={() => onDelete(project.id)} disabled={disabled} className={smallButton}>Delete</button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
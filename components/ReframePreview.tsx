@@ -0,0 +1,80 @@
+import React, { RefObject, useEffect, useRef, useState } from 'react';
+import { CaptionLayer } from '../types';
+import { drawOutputFrame } from '../services/videoRenderer';
+import { captionFont } from '../services/captionLayout';
+import { getCaptionArea, getOutputSize, ReframeSettings } from '../services/reframe';
+
+interface ReframePreviewProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  layers: CaptionLayer[];
+  currentTime: number;
+  videoDimensions: { width: number, height: number };
+  reframe: ReframeSettings;
+}
+
+/**
+ * Shows the player as the reframed export will look, drawn from the (hidden) video element with
+ * the renderers' own frame drawing. The safe area is outlined here only, never in the export.
+ * Clicking toggles playback, since the hidden player's controls cannot be reached.
+ */
+export const ReframePreview = ({ videoRef, layers, currentTime, videoDimensions, reframe }: ReframePreviewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const output = getOutputSize(videoDimensions, reframe);
+  // Bumped when a web font finishes loading or a new frame is decoded without a time change
+  const [version, setVersion] = useState(0);
+  const fonts = [...new Set(layers.map(layer => captionFont(layer.styles, output.height).font))];
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(fonts.map(font => document.fonts.load(font)))
+      .then(() => { if (!cancelled) setVersion(v => v + 1); })
+      .catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [fonts.join('|')]);
+
+  // A seek shows its frame after the time has already changed
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const redraw = () => setVersion(v => v + 1);
+    video.addEventListener('seeked', redraw);
+    video.addEventListener('loadeddata', redraw);
+    return () => {
+      video.removeEventListener('seeked', redraw);
+      video.removeEventListener('loadeddata', redraw);
+    };
+  }, [videoRef]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!video || !ctx || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+    drawOutputFrame(ctx, video, videoDimensions, layers, reframe, currentTime);
+    if (reframe.safeArea !== 'none') {
+      const area = getCaptionArea(output, reframe);
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255, 255, 0, 0.8)';
+      ctx.lineWidth = Math.max(2, output.height / 400);
+      ctx.setLineDash([ctx.lineWidth * 4, ctx.lineWidth * 3]);
+      ctx.strokeRect(area.x, area.y, area.width, area.height);
+      ctx.restore();
+    }
+  }, [layers, currentTime, videoDimensions, reframe, version, output.width, output.height]);
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(() => undefined);
+    else video.pause();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={output.width}
+      height={output.height}
+      onClick={togglePlayback}
+      className="absolute inset-0 w-full h-full rounded-lg cursor-pointer"
+    />
+  );
+};
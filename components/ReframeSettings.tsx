@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  ASPECT_RATIOS, AspectRatio, cropCenterAt, isReframed, KEYFRAME_TOLERANCE, REFRAME_MODES, ReframeMode,
+  ReframeSettings as Settings, RESOLUTIONS, SAFE_AREAS, SafeAreaId, setCropKeyframe,
+} from '../services/reframe';
+
+interface ReframeSettingsProps {
+  settings: Settings;
+  currentTime: number;
+  disabled: boolean;
+  onChange: (settings: Settings) => void;
+  onSeek: (time: number) => void;
+}
+
+const select = 'w-full bg-gray-700 border border-gray-600 rounded-lg p-2';
+const smallButton = 'bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded px-2 py-1 text-xs';
+
+/**
+ * Picks the output shape and how the video fills it. Without keyframes the crop center is
+ * fixed; once keyframes are added, moving the sliders edits the keyframe at the playhead.
+ */
+export const ReframeSettings = ({ settings, currentTime, disabled, onChange, onSeek }: ReframeSettingsProps) => {
+  const update = (changes: Partial<Settings>) => onChange({ ...settings, ...changes });
+  const center = cropCenterAt(settings.keyframes, currentTime);
+  const animated = settings.keyframes.length > 1;
+  const usesCenter = settings.mode !== 'letterbox';
+
+  const moveCenter = (axis: 'x' | 'y', value: number) => {
+    const keyframe = { ...center, time: animated ? currentTime : 0, [axis]: value };
+    update({ keyframes: animated ? setCropKeyframe(settings.keyframes, keyframe) : [keyframe] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium mb-1">Aspect Ratio</label>
+          <select value={settings.aspectRatio} onChange={(e) => update({ aspectRatio: e.target.value as AspectRatio })} disabled={disabled} className={select}>
+            {ASPECT_RATIOS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Resolution</label>
+          <select value={settings.resolution} onChange={(e) => update({ resolution: Number(e.target.value) })} disabled={disabled || !isReframed(settings)} className={select}>
+            {RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+          </select>
+        </div>
+      </div>
+      {isReframed(settings) && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium mb-1">Fill</label>
+              <select value={settings.mode} onChange={(e) => update({ mode: e.target.value as ReframeMode })} disabled={disabled} className={select}>
+                {REFRAME_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Safe Area</label>
+              <select value={settings.safeArea} onChange={(e) => update({ safeArea: e.target.value as SafeAreaId })} disabled={disabled} className={select}>
+                {SAFE_AREAS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+              </select>
+            </div>
+          </div>
+          {usesCenter && (
+            <div className="space-y-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Crop Center X ({Math.round(center.x * 100)}%)</label>
+                <input type="range" min="0" max="1" step="0.01" value={center.x} onChange={(e) => moveCenter('x', Number(e.target.value))} disabled={disabled} className="w-full" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Crop Center Y ({Math.round(center.y * 100)}%)</label>
+                <input type="range" min="0" max="1" step="0.01" value={center.y} onChange={(e) => moveCenter('y', Number(e.target.value))} disabled={disabled} className="w-full" />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-400">
+                  {animated ? `${settings.keyframes.length} keyframes` : 'Fixed center'}
+                </span>
+                <button
+                  onClick={() => update({ keyframes: setCropKeyframe(settings.keyframes, { ...center, time: currentTime }) })}
+                  disabled={disabled}
+                  className={smallButton}
+                >
+                  Add keyframe at {currentTime.toFixed(2)}s
+                </button>
+              </div>
+              {settings.keyframes.length > 0 && (
+                <ul className="space-y-1 max-h-32 overflow-y-auto">
+                  {settings.keyframes.map(keyframe => (
+                    <li
+                      key={keyframe.time}
+                      className={`flex items-center justify-between rounded px-2 py-1 text-sm ${Math.abs(keyframe.time - currentTime) <= KEYFRAME_TOLERANCE ? 'bg-gray-600' : 'bg-gray-700'}`}
+                    >
+                      <button onClick={() => onSeek(keyframe.time)} className="hover:underline">
+                        {keyframe.time.toFixed(2)}s
+                      </button>
+                      <span className="text-gray-400">{Math.round(keyframe.x * 100)}%, {Math.round(keyframe.y * 100)}%</span>
+                      <button
+                        onClick={() => update({ keyframes: settings.keyframes.filter(k => k !== keyframe) })}
+                        disabled={disabled}
+                        className={smallButton}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { SpeakerStyle, SubtitleStyle } from '../types';
+import { speakerName } from '../services/speakers';
+
+interface SpeakerSettingsProps {
+  speakers: string[];
+  names: Record<string, string>;
+  styles: SubtitleStyle;
+  onNameChange: (speaker: string, name: string) => void;
+  onStyleChange: (speaker: string, style: SpeakerStyle) => void;
+}
+
+/**
+ * Names each detected speaker and optionally gives their captions their own color and position.
+ * Overrides belong to the caption track being styled; names are shared by all tracks.
+ */
+export const SpeakerSettings = ({ speakers, names, styles, onNameChange, onStyleChange }: SpeakerSettingsProps) => (
+  <div className="space-y-3">
+    {speakers.map(speaker => {
+      const override = styles.speakerStyles[speaker] ?? {};
+      return (
+        <div key={speaker} className="bg-gray-700 rounded-lg p-2 space-y-2">
+          <input
+            value={names[speaker] ?? ''}
+            placeholder={speakerName(speaker, {})}
+            onChange={(e) => onNameChange(speaker, e.target.value)}
+            className="w-full bg-gray-800 border border-gray-600 rounded p-1 text-sm"
+          />
+          <div className="flex items-center gap-2 text-sm">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={override.color !== undefined} onChange={(e) => onStyleChange(speaker, { ...override, color: e.target.checked ? styles.color : undefined })} />
+              Own color
+            </label>
+            {override.color !== undefined && (
+              <input type="color" value={override.color} onChange={(e) => onStyleChange(speaker, { ...override, color: e.target.value })} className="w-10 h-6 bg-gray-800 border-gray-600 rounded" />
+            )}
+          </div>
+          <div className="text-sm">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={override.positionY !== undefined} onChange={(e) => onStyleChange(speaker, { ...override, positionY: e.target.checked ? styles.positionY : undefined })} />
+              Own position{override.positionY !== undefined ? ` (${override.positionY}%)` : ''}
+            </label>
+            {override.positionY !== undefined && (
+              <input type="range" min="1" max="90" value={override.positionY} onChange={(e) => onStyleChange(speaker, { ...override, positionY: Number(e.target.value) })} className="w-full" />
+            )}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
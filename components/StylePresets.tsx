@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { StylePreset } from '../services/stylePresets';
+import { FONT_FILE_ACCEPT } from '../services/customFonts';
+
+interface StylePresetsProps {
+  presets: StylePreset[];
+  onApply: (preset: StylePreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onUploadFont: (file: File) => void;
+}
+
+const smallButton = 'bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded px-2 py-1 text-xs';
+
+// A file input styled as a small button; the input is reset so the same file can be picked again
+const FileButton = ({ label, accept, onFile }: { label: string, accept: string, onFile: (file: File) => void }) => (
+  <label className={`${smallButton} cursor-pointer text-center`}>
+    {label}
+    <input
+      type="file"
+      className="hidden"
+      accept={accept}
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onFile(file);
+      }}
+    />
+  </label>
+);
+
+/**
+ * Applies a saved look to the caption style, saves the current style as a named preset, and
+ * moves presets and their fonts between machines as a JSON file.
+ */
+export const StylePresets = ({ presets, onApply, onSave, onDelete, onExport, onImport, onUploadFont }: StylePresetsProps) => {
+  const [selectedId, setSelectedId] = useState(presets[0]?.id ?? '');
+  const [name, setName] = useState('');
+  const selected = presets.find(preset => preset.id === selectedId);
+  const hasUserPresets = presets.some(preset => !preset.builtIn);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className="flex-grow bg-gray-700 border border-gray-600 rounded-lg p-2 text-sm">
+          <optgroup label="Built-in">
+            {presets.filter(p => p.builtIn).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+          {hasUserPresets && (
+            <optgroup label="Saved">
+              {presets.filter(p => !p.builtIn).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={() => selected && onApply(selected)} disabled={!selected} className={smallButton}>Apply</button>
+        <button onClick={() => selected && onDelete(selected.id)} disabled={!selected || selected.builtIn} className={smallButton}>Delete</button>
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={name}
+          placeholder="Name, e.g. a client's brand"
+          onChange={(e) => setName(e.target.value)}
+          className="flex-grow bg-gray-700 border border-gray-600 rounded-lg p-1 text-sm"
+        />
+        <button
+          onClick={() => { onSave(name.trim()); setName(''); }}
+          disabled={!name.trim()}
+          className={smallButton}
+        >
+          Save current
+        </button>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={onExport} disabled={!hasUserPresets} className={smallButton}>Export</button>
+        <FileButton label="Import" accept=".json,application/json" onFile={onImport} />
+        <FileButton label="Upload font" accept={FONT_FILE_ACCEPT} onFile={onUploadFont} />
+      </div>
+    </div>
+  );
+};
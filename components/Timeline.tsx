@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CaptionCue } from '../types';
+
+interface TimelineProps {
+  audioBuffer: AudioBuffer | null;
+  captions: CaptionCue[];
+  duration: number;
+  currentTime: number;
+  disabled?: boolean;
+  onSeek: (time: number) => void;
+  onWordBoundaryChange: (globalWordIndex: number, edge: 'start' | 'end', time: number) => void;
+}
+
+// Waveform peaks are precomputed at this resolution and resampled when drawing
+const PEAKS_PER_SECOND = 200;
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 400;
+const WAVEFORM_HEIGHT = 64;
+const CUE_TRACK_HEIGHT = 48;
+
+interface Peaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+const computePeaks = (buffer: AudioBuffer): Peaks => {
+  const data = buffer.getChannelData(0);
+  const samplesPerPeak = Math.max(1, Math.floor(buffer.sampleRate / PEAKS_PER_SECOND));
+  const count = Math.ceil(data.length / samplesPerPeak);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    let lo = 0;
+    let hi = 0;
+    const end = Math.min(data.length, (i + 1) * samplesPerPeak);
+    for (let j = i * samplesPerPeak; j < end; j++) {
+      if (data[j] < lo) lo = data[j];
+      if (data[j] > hi) hi = data[j];
+    }
+    min[i] = lo;
+    max[i] = hi;
+  }
+  return { min, max };
+};
+
+/**
+ * Zoomable timeline showing the audio waveform, caption cues and draggable word boundaries.
+ * Only the visible part of the waveform is drawn so long videos stay within canvas size limits.
+ */
+export const Timeline = ({ audioBuffer, captions, duration, currentTime, disabled, onSeek, onWordBoundaryChange }: TimelineProps) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [zoom, setZoom] = useState(60); // pixels per second
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [followPlayhead, setFollowPlayhead] = useState(true);
+  const dragRef = useRef<{ globalWordIndex: number, edge: 'start' | 'end' } | null>(null);
+
+  const peaks = useMemo(() => (audioBuffer ? computePeaks(audioBuffer) : null), [audioBuffer]);
+  const totalWidth = Math.max(viewportWidth, duration * zoom);
+
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const observer = new ResizeObserver(() => setViewportWidth(scroller.clientWidth));
+    observer.observe(scroller);
+    setViewportWidth(scroller.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the visible slice of the waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewportWidth === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = viewportWidth * dpr;
+    canvas.height = WAVEFORM_HEIGHT * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, viewportWidth, WAVEFORM_HEIGHT);
+    if (!peaks) return;
+
+    const mid = WAVEFORM_HEIGHT / 2;
+    ctx.fillStyle = '#60A5FA';
+    for (let x = 0; x < viewportWidth; x++) {
+      const from = Math.floor(((scrollLeft + x) / zoom) * PEAKS_PER_SECOND);
+      const to = Math.max(from + 1, Math.floor(((scrollLeft + x + 1) / zoom) * PEAKS_PER_SECOND));
+      if (from >= peaks.max.length) break;
+      let lo = 0;
+      let hi = 0;
+      for (let i = from; i < Math.min(to, peaks.max.length); i++) {
+        if (peaks.min[i] < lo) lo = peaks.min[i];
+        if (peaks.max[i] > hi) hi = peaks.max[i];
+      }
+      ctx.fillRect(x, mid - hi * mid, 1, Math.max(1, (hi - lo) * mid));
+    }
+  }, [peaks, zoom, scrollLeft, viewportWidth]);
+
+  // Keep the playhead in view while the video plays
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller || !followPlayhead) return;
+    const x = currentTime * zoom;
+    if (x < scroller.scrollLeft || x > scroller.scrollLeft + scroller.clientWidth - 20) {
+      scroller.scrollLeft = Math.max(0, x - scroller.clientWidth / 4);
+    }
+  }, [currentTime, zoom, followPlayhead]);
+
+  const timeFromClientX = (clientX: number) => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return 0;
+    const rect = scroller.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, (clientX - rect.left + scroller.scrollLeft) / zoom));
+  };
+
+  const handleZoom = (next: number) => {
+    const scroller = scrollerRef.current;
+    const clamped = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next));
+    if (scroller) {
+      // Zoom around the playhead so the current position stays put
+      const offset = currentTime * zoom - scroller.scrollLeft;
+      requestAnimationFrame(() => {
+        scroller.scrollLeft = Math.max(0, currentTime * clamped - offset);
+      });
+    }
+    setZoom(clamped);
+  };
+
+  const startDrag = (event: React.PointerEvent, globalWordIndex: number, edge: 'start' | 'end') => {
+    if (disabled) return;
+    event.stopPropagation();
+    (event.target as HTMLElement).setPointerCapture(event.pointerId);
+    dragRef.current = { globalWordIndex, edge };
+    setFollowPlayhead(false);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    onWordBoundaryChange(drag.globalWordIndex, drag.edge, timeFromClientX(event.clientX));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  // Word positions are counted across all cues so edits can be mapped back to the source cues
+  const wordOffsets = useMemo(() => {
+    const offsets: number[] = [];
+    let count = 0;
+    for (const caption of captions) {
+      offsets.push(count);
+      count += caption.words.length;
+    }
+    return offsets;
+  }, [captions]);
+
+  const visibleStart = scrollLeft / zoom;
+  const visibleEnd = (scrollLeft + viewportWidth) / zoom;
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-2">
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <span className="text-gray-400">Zoom</span>
+        <button className="bg-gray-700 hover:bg-gray-600 rounded px-2" onClick={() => handleZoom(zoom / 1.5)}>-</button>
+        <input type="range" min={MIN_ZOOM} max={MAX_ZOOM} value={zoom} onChange={(e) => handleZoom(Number(e.target.value))} className="w-32" />
+        <button className="bg-gray-700 hover:bg-gray-600 rounded px-2" onClick={() => handleZoom(zoom * 1.5)}>+</button>
+        <label className="flex items-center gap-1 ml-auto text-gray-400">
+          <input type="checkbox" checked={followPlayhead} onChange={(e) => setFollowPlayhead(e.target.checked)} />
+          Follow playhead
+        </label>
+      </div>
+      <div
+        ref={scrollerRef}
+        className="overflow-x-auto overflow-y-hidden select-none"
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        <div
+          className="relative cursor-pointer"
+          style={{ width: totalWidth, height: WAVEFORM_HEIGHT + CUE_TRACK_HEIGHT }}
+          onClick={(e) => onSeek(timeFromClientX(e.clientX))}
+        >
+          <canvas
+            ref={canvasRef}
+            className="sticky left-0 top-0 block"
+            style={{ width: viewportWidth, height: WAVEFORM_HEIGHT }}
+          />
+          {!audioBuffer && (
+            <span className="absolute top-1 text-xs text-gray-500" style={{ left: scrollLeft + 8 }}>Waveform appears once audio has been extracted.</span>
+          )}
+
+          {captions.map((caption, cueIndex) => {
+            // Skip cues that are scrolled out of view
+            if (caption.endTime < visibleStart || caption.startTime > visibleEnd) return null;
+            return (
+              <div
+                key={caption.id}
+                className="absolute bg-purple-700/60 border border-purple-400 rounded overflow-hidden"
+                style={{
+                  left: caption.startTime * zoom,
+                  width: Math.max(2, (caption.endTime - caption.startTime) * zoom),
+                  top: WAVEFORM_HEIGHT,
+                  height: CUE_TRACK_HEIGHT,
+                }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSeek(caption.startTime);
+                }}
+              >
+                {caption.words.map((word, wordIndex) => {
+                  const globalWordIndex = wordOffsets[cueIndex] + wordIndex;
+                  const isActive = currentTime >= word.startTime && currentTime <= word.endTime;
+                  return (
+                    <div
+                      key={wordIndex}
+                      className={`absolute bottom-0 h-7 rounded-sm text-xs px-1 truncate ${isActive ? 'bg-yellow-400 text-black' : 'bg-purple-500/80'}`}
+                      style={{
+                        left: (word.startTime - caption.startTime) * zoom,
+                        width: Math.max(2, (word.endTime - word.startTime) * zoom),
+                      }}
+                      title={`${word.word} (${word.startTime.toFixed(2)}s - ${word.endTime.toFixed(2)}s)`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSeek(word.startTime);
+                      }}
+                    >
+                      {word.word}
+                      <span
+                        className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/40 hover:bg-white"
+                        onPointerDown={(e) => startDrag(e, globalWordIndex, 'start')}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                      <span
+                        className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/40 hover:bg-white"
+                        onPointerDown={(e) => startDrag(e, globalWordIndex, 'end')}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                    </div>
+                  );
+                })}
+                <span className="absolute top-0 left-1 text-[10px] text-purple-200 truncate">{caption.text}</span>
+              </div>
+            );
+          })}
+
+          <div
+            className="absolute top-0 w-0.5 bg-red-500 pointer-events-none"
+            style={{ left: currentTime * zoom, height: WAVEFORM_HEIGHT + CUE_TRACK_HEIGHT }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import { GeneratedCue, PcmAudio, WordCue } from '../types';
+
+export interface ChunkingOptions {
+    targetSeconds: number; // preferred chunk length
+    searchSeconds: number; // how far from the target a cut may move to find silence
+    overlapSeconds: number; // audio shared with each neighbouring chunk
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+    targetSeconds: 120,
+    searchSeconds: 15,
+    overlapSeconds: 3,
+};
+
+export interface AudioChunk {
+    index: number;
+    audio: PcmAudio;
+    offset: number; // where the chunk's audio starts in the full recording
+    keepFrom: number; // words are kept from this time...
+    keepUntil: number; // ...up to this time, so each word belongs to exactly one chunk
+}
+
+// Length of the window used to find the quietest cut point, in seconds
+const CUT_WINDOW_SECONDS = 0.05;
+
+/**
+ * Returns a view of part of the audio without copying samples.
+ */
+export const sliceAudio = (audio: PcmAudio, startTime: number, endTime: number): PcmAudio => {
+    const from = Math.max(0, Math.floor(startTime * audio.sampleRate));
+    const to = Math.min(audio.length, Math.ceil(endTime * audio.sampleRate));
+    const data = audio.getChannelData(0).subarray(from, to);
+    return {
+        sampleRate: audio.sampleRate,
+        length: data.length,
+        duration: data.length / audio.sampleRate,
+        getChannelData: () => data,
+    };
+};
+
+// Finds the start of the quietest short window between two times
+const findQuietestPoint = (audio: PcmAudio, from: number, to: number): number => {
+    const data = audio.getChannelData(0);
+    const windowSize = Math.max(1, Math.round(CUT_WINDOW_SECONDS * audio.sampleRate));
+    const start = Math.max(0, Math.floor(from * audio.sampleRate));
+    const end = Math.min(data.length - windowSize, Math.floor(to * audio.sampleRate));
+
+    let best = start;
+    let bestEnergy = Infinity;
+    for (let offset = start; offset <= end; offset += windowSize) {
+        let energy = 0;
+        for (let i = 0; i < windowSize; i++) {
+            energy += data[offset + i] * data[offset + i];
+        }
+        if (energy < bestEnergy) {
+            bestEnergy = energy;
+            best = offset;
+        }
+    }
+    // Cut in the middle of the quiet window
+    return (best + windowSize / 2) / audio.sampleRate;
+};
+
+/**
+ * Splits audio into overlapping chunks, moving each cut to the quietest point near the target length
+ * so cuts fall between words whenever possible.
+ */
+export const splitAudioIntoChunks = (audio: PcmAudio, options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS): AudioChunk[] => {
+    const duration = audio.duration;
+    const cuts = [0];
+    while (duration - cuts[cuts.length - 1] > options.targetSeconds + options.searchSeconds) {
+        const target = cuts[cuts.length - 1] + options.targetSeconds;
+        cuts.push(findQuietestPoint(audio, target - options.searchSeconds, target + options.searchSeconds));
+    }
+    cuts.push(duration);
+
+    const chunks: AudioChunk[] = [];
+    for (let i = 0; i < cuts.length - 1; i++) {
+        const offset = Math.max(0, cuts[i] - options.overlapSeconds);
+        const end = Math.min(duration, cuts[i + 1] + options.overlapSeconds);
+        chunks.push({
+            index: i,
+            audio: sliceAudio(audio, offset, end),
+            offset,
+            keepFrom: cuts[i],
+            keepUntil: cuts[i + 1],
+        });
+    }
+    return chunks;
+};
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/**
+ * Moves chunk-relative cue times onto the full recording and drops words that belong to a neighbouring
+ * chunk. A word belongs to the chunk that contains its midpoint.
+ */
+export const placeChunkCues = (chunk: AudioChunk, cues: GeneratedCue[]): GeneratedCue[] => {
+    const isLast = chunk.keepUntil >= chunk.offset + chunk.audio.duration - 1e-6;
+    return cues
+        .map(cue => {
+            const words = cue.words
+                .map(w => ({ ...w, startTime: w.startTime + chunk.offset, endTime: w.endTime + chunk.offset }))
+                .filter(w => {
+                    const mid = (w.startTime + w.endTime) / 2;
+                    return mid >= chunk.keepFrom && (mid < chunk.keepUntil || isLast);
+                });
+            return words.length > 0
+                ? { startTime: words[0].startTime, endTime: words[words.length - 1].endTime, words }
+                : null;
+        })
+        .filter((cue): cue is GeneratedCue => cue !== null);
+};
+
+/**
+ * Joins placed chunk results into one cue list. Where both sides of a cut transcribed the same word,
+ * the copy from the later chunk is removed.
+ */
+export const stitchChunkCues = (chunkCues: GeneratedCue[][]): GeneratedCue[] => {
+    const stitched: GeneratedCue[] = [];
+    for (const cues of chunkCues) {
+        const previousWords: WordCue[] = stitched.flatMap(c => c.words).slice(-3);
+        let skipping = true;
+        for (const cue of cues) {
+            let words = cue.words;
+            if (skipping) {
+                words = words.filter(word => {
+                    if (!skipping) return true;
+                    const duplicate = previousWords.some(p =>
+                        normalizeWord(p.word) === normalizeWord(word.word) && Math.abs(p.startTime - word.startTime) < 1);
+                    if (!duplicate) skipping = false;
+                    return !duplicate;
+                });
+            }
+            if (words.length > 0) {
+                stitched.push({ startTime: words[0].startTime, endTime: words[words.length - 1].endTime, words });
+            }
+        }
+    }
+    return stitched;
+};
@@ -0,0 +1,107 @@
+import { PcmAudio } from '../types';
+
+// Helper to write a string to a DataView
+function writeString(view: DataView, offset: number, str: string) {
+    for (let i = 0; i < str.length; i++) {
+        view.setUint8(offset + i, str.charCodeAt(i));
+    }
+}
+
+/**
+ * Encodes the first channel of the audio as a 16-bit PCM WAV file.
+ */
+export const encodeWav = (audio: PcmAudio): Blob => {
+    const sampleRate = audio.sampleRate;
+    const numChannels = 1;
+    const bitDepth = 16;
+
+    const pcmData = new Int16Array(audio.length);
+    const channelData = audio.getChannelData(0);
+    for (let i = 0; i < audio.length; i++) {
+        // Clamp and convert to 16-bit PCM
+        pcmData[i] = Math.max(-1, Math.min(1, channelData[i])) * 32767;
+    }
+
+    const wavHeader = new ArrayBuffer(44);
+    const view = new DataView(wavHeader);
+    const dataSize = pcmData.byteLength;
+
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true); // file length - 8
+    writeString(view, 8, 'WAVE');
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true); // Subchunk1Size for PCM
+    view.setUint16(20, 1, true); // AudioFormat 1 for PCM
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true); // byteRate
+    view.setUint16(32, numChannels * (bitDepth / 8), true); // blockAlign
+    view.setUint16(34, bitDepth, true);
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    return new Blob([view, pcmData], { type: 'audio/wav' });
+};
+
+/**
+ * Reads a Blob as a Base64 string. Works in Node as well as the browser, unlike FileReader.
+ */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    // Converted in slices, since spreading millions of bytes into one call overflows the stack
+    const SLICE = 0x8000;
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += SLICE) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + SLICE));
+    }
+    if (!binary) throw new Error("Failed to convert audio to base64.");
+    return btoa(binary);
+};
+
+/**
+ * Decodes a 16-bit or 32-bit float PCM WAV file, mixing its channels down to mono. Lets WAV audio
+ * be transcribed where neither Web Audio nor ffmpeg is available.
+ */
+export const decodeWav = (data: ArrayBuffer): PcmAudio => {
+    const view = new DataView(data);
+    const readString = (offset: number, length: number) =>
+        String.fromCharCode(...new Uint8Array(data, offset, length));
+    if (data.byteLength < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+        throw new Error('Not a WAV file.');
+    }
+
+    let format = 0, channels = 0, sampleRate = 0, bitDepth = 0;
+    let offset = 12;
+    while (offset + 8 <= data.byteLength) {
+        const id = readString(offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        if (id === 'fmt ') {
+            format = view.getUint16(body, true);
+            channels = view.getUint16(body + 2, true);
+            sampleRate = view.getUint32(body + 4, true);
+            bitDepth = view.getUint16(body + 14, true);
+        } else if (id === 'data') {
+            const isPcm16 = format === 1 && bitDepth === 16;
+            const isFloat32 = format === 3 && bitDepth === 32;
+            if (!channels || (!isPcm16 && !isFloat32)) {
+                throw new Error('Only 16-bit PCM and 32-bit float WAV files are supported.');
+            }
+            const bytesPerSample = bitDepth / 8;
+            const length = Math.floor(Math.min(size, data.byteLength - body) / (bytesPerSample * channels));
+            const samples = new Float32Array(length);
+            for (let i = 0; i < length; i++) {
+                let sum = 0;
+                for (let c = 0; c < channels; c++) {
+                    const at = body + (i * channels + c) * bytesPerSample;
+                    sum += isPcm16 ? view.getInt16(at, true) / 32768 : view.getFloat32(at, true);
+                }
+                samples[i] = sum / channels;
+            }
+            return { sampleRate, length, duration: length / sampleRate, getChannelData: () => samples };
+        }
+        // Chunks are padded to an even size
+        offset = body + size + (size % 2);
+    }
+    throw new Error('The WAV file has no audio data.');
+};
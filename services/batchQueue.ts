@@ -0,0 +1,190 @@
+import { Zip, ZipPassThrough } from 'fflate';
+import { CaptionLayer, GeneratedCue, SubtitleStyle, TranscriptionProviderSettings, TranscriptionStatus, WordTimingSource } from '../types';
+import { segmentCaptions } from './captionSegmenter';
+import { ExportSettings, getExportFormat, getOutputFilename, getVideoBitrate } from './exportFormats';
+import { convertVideo } from './ffmpegService';
+import { getOutputSize, ReframeSettings } from './reframe';
+import { isOfflineRenderSupported, probeFrameRate, renderVideoOffline } from './offlineRenderer';
+import { throwIfAborted } from './retry';
+import { serializeCaptions, SubtitleFormat, SUBTITLE_FORMATS } from './subtitleSerializer';
+import { ChunkCache, transcribeInChunks } from './transcriptionPipeline';
+import { createTranscriptionProvider } from './transcriptionProvider';
+import { browserMediaAdapter, renderVideoWithCaptions } from './videoRenderer';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// Used for the real-time recorder's bitrate when the frame rate cannot be read
+const FALLBACK_FRAME_RATE = 30;
+// ZIP chunks collected before they are merged into a Blob
+const ZIP_PARTS_PER_BLOB = 256;
+
+export interface BatchOutput {
+    name: string;
+    data: Blob;
+}
+
+export interface BatchJob {
+    id: string;
+    file: File;
+    status: TranscriptionStatus;
+    message: string;
+    outputs: BatchOutput[];
+    // Cues and finished chunks survive a failure, so a retry only repeats the work that did not complete
+    cues: GeneratedCue[] | null;
+    cache: ChunkCache;
+}
+
+// Settings shared by every job in a batch
+export interface BatchSettings {
+    providerSettings: TranscriptionProviderSettings;
+    timingSource: WordTimingSource;
+    styles: SubtitleStyle;
+    subtitleFormat: SubtitleFormat;
+    renderVideo: boolean;
+    exportSettings: ExportSettings;
+    reframe: ReframeSettings;
+}
+
+export const createBatchJob = (file: File): BatchJob => ({
+    id: crypto.randomUUID(),
+    file,
+    status: TranscriptionStatus.IDLE,
+    message: 'Waiting',
+    outputs: [],
+    cues: null,
+    cache: new Map(),
+});
+
+const renderJobVideo = async (
+    file: File,
+    layers: CaptionLayer[],
+    dimensions: { width: number, height: number },
+    reframe: ReframeSettings,
+    settings: ExportSettings,
+    setProgress: (message: string) => void,
+    signal: AbortSignal
+): Promise<Blob> => {
+    // Falls back to the real-time recorder when the browser cannot decode the codec
+    const url = isOfflineRenderSupported(file)
+        ? await renderVideoOffline(file, layers, dimensions, reframe, settings, setProgress, signal)
+        : null;
+    if (url) return takeBlob(url);
+    const frameRate = (await probeFrameRate(file)) ?? FALLBACK_FRAME_RATE;
+    const output = getOutputSize(dimensions, reframe);
+    const bitrate = getVideoBitrate(settings, output.width, output.height, frameRate);
+    const recording = await takeBlob(await renderVideoWithCaptions(file, layers, dimensions, reframe, bitrate, setProgress, signal));
+    // The real-time recorder only produces WebM
+    if (settings.format === 'webm') return recording;
+    setProgress(`Converting to ${getExportFormat(settings.format).label}...`);
+    return convertVideo(recording, settings, bitrate, setProgress, signal);
+};
+
+// Renderers return object URLs; the batch keeps the data and releases the URL
+const takeBlob = async (url: string): Promise<Blob> => {
+    const blob = await (await fetch(url)).blob();
+    URL.revokeObjectURL(url);
+    return blob;
+};
+
+/**
+ * Runs one video through the whole pipeline: audio extraction, transcription, caption segmentation,
+ * then the subtitle file and, when asked for, the rendered video. Progress is reported with the
+ * same statuses the single-video workflow uses. Cues are saved on the job as soon as they exist.
+ */
+export const processBatchJob = async (
+    job: BatchJob,
+    settings: BatchSettings,
+    onUpdate: (update: Partial<BatchJob>) => void,
+    signal: AbortSignal
+): Promise<BatchOutput[]> => {
+    const report = (status: TranscriptionStatus) => (message: string) => onUpdate({ status, message });
+    const dimensions = await browserMediaAdapter.readVideoMetadata(job.file);
+    throwIfAborted(signal);
+
+    let cues = job.cues;
+    if (!cues) {
+        onUpdate({ status: TranscriptionStatus.PREPARING, message: 'Extracting audio...' });
+        const audio = await browserMediaAdapter.extractAudio(job.file, report(TranscriptionStatus.PREPARING), signal);
+        onUpdate({ status: TranscriptionStatus.TRANSCRIBING, message: 'Transcribing...' });
+        const provider = createTranscriptionProvider(settings.providerSettings);
+        const result = await transcribeInChunks(audio, provider, settings.timingSource,
+            report(TranscriptionStatus.TRANSCRIBING), () => {}, signal, job.cache);
+        if (result.cues.length === 0) {
+            throw new Error('The AI did not return any usable captions.');
+        }
+        cues = result.cues;
+        onUpdate({ cues });
+    }
+
+    const captions = segmentCaptions(cues, settings.styles.segmentation);
+    const format = SUBTITLE_FORMATS.find(f => f.value === settings.subtitleFormat) ?? SUBTITLE_FORMATS[0];
+    const outputs: BatchOutput[] = [{
+        name: `${job.file.name.replace(/\.[^/.]+$/, '')}.${format.value}`,
+        data: new Blob([serializeCaptions(format.value, captions, settings.styles, dimensions)], { type: `${format.mimeType};charset=utf-8` }),
+    }];
+
+    if (settings.renderVideo) {
+        onUpdate({ status: TranscriptionStatus.RENDERING, message: 'Rendering video...' });
+        const video = await renderJobVideo(job.file, [{ captions, styles: settings.styles }], dimensions,
+            settings.reframe, settings.exportSettings, report(TranscriptionStatus.RENDERING), signal);
+        outputs.push({
+            name: getOutputFilename(job.file.name, 'captioned', getExportFormat(settings.exportSettings.format).extension),
+            data: video,
+        });
+    }
+    return outputs;
+};
+
+/**
+ * Calls the worker for every item, never running more than `limit` at once. Items start in order;
+ * a failing worker does not stop the others, so the worker is expected to handle its own errors.
+ */
+export const runWithConcurrency = async <T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>
+): Promise<void> => {
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length) {
+            await worker(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+};
+
+/**
+ * Packs the outputs of finished jobs into one ZIP. Files with the same name get a numbered suffix.
+ * Each file is streamed into the archive, which is gathered into Blobs as it grows, so a batch of
+ * videos never has to fit in the page's memory at once.
+ */
+export const zipBatchOutputs = async (outputs: BatchOutput[]): Promise<Blob> => {
+    let parts: BlobPart[] = [];
+    let zipError: Error | null = null;
+    const zip = new Zip((error, chunk) => {
+        if (error) zipError = error;
+        else parts.push(chunk);
+    });
+    const names = new Set<string>();
+    for (const output of outputs) {
+        let name = output.name;
+        for (let n = 2; names.has(name); n++) {
+            name = output.name.replace(/(\.[^/.]+)?$/, ext => ` (${n})${ext}`);
+        }
+        names.add(name);
+        // Videos are already compressed, so files are stored as they are
+        const file = new ZipPassThrough(name);
+        zip.add(file);
+        const reader = output.data.stream().getReader();
+        for (let read = await reader.read(); !read.done; read = await reader.read()) {
+            file.push(read.value);
+            if (zipError) throw zipError;
+            if (parts.length >= ZIP_PARTS_PER_BLOB) parts = [new Blob(parts)];
+        }
+        file.push(new Uint8Array(0), true);
+    }
+    zip.end();
+    if (zipError) throw zipError;
+    return new Blob(parts, { type: 'application/zip' });
+};
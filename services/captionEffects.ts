@@ -0,0 +1,75 @@
+import { ActiveWordEffect, SubtitleStyle, WordCue } from '../types';
+
+export const ACTIVE_WORD_EFFECTS: { value: ActiveWordEffect, label: string }[] = [
+    { value: 'none', label: 'No highlight' },
+    { value: 'color', label: 'Highlight color' },
+    { value: 'pop', label: 'Pop' },
+    { value: 'bounce', label: 'Bounce' },
+    { value: 'fill', label: 'Color fill sweep' },
+    { value: 'box', label: 'Box highlight' },
+];
+
+// Seconds the pop and bounce animations take after a word starts
+const POP_DURATION = 0.15;
+const BOUNCE_DURATION = 0.3;
+// Size of an active word at rest after popping, and how high a bounce goes, relative to the font size
+const POP_SCALE = 0.15;
+const BOUNCE_HEIGHT = 0.2;
+
+/**
+ * How a single word looks at a moment in time, shared by the canvas renderer and the preview.
+ */
+export interface WordAppearance {
+    color: string;
+    scale: number;
+    offsetY: number; // in font sizes; negative moves the word up
+    fillProgress: number; // share of the word, left to right, painted in the highlight color
+    boxColor: string | null;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Overshoots past 1 before settling, which gives the pop its snap
+const easeOutBack = (t: number) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+};
+
+export const getWordAppearance = (word: WordCue, currentTime: number, styles: SubtitleStyle): WordAppearance => {
+    const isActive = currentTime >= word.startTime && currentTime <= word.endTime;
+    const elapsed = currentTime - word.startTime;
+    const appearance: WordAppearance = {
+        color: isActive ? styles.highlightColor : styles.color,
+        scale: 1,
+        offsetY: 0,
+        fillProgress: 0,
+        boxColor: null,
+    };
+
+    switch (styles.activeWordEffect) {
+        case 'none':
+            appearance.color = styles.color;
+            break;
+        case 'pop':
+            if (isActive) appearance.scale = 1 + POP_SCALE * easeOutBack(clamp01(elapsed / POP_DURATION));
+            break;
+        case 'bounce':
+            if (isActive) appearance.offsetY = -BOUNCE_HEIGHT * Math.sin(Math.PI * clamp01(elapsed / BOUNCE_DURATION));
+            break;
+        case 'fill': {
+            // Spoken words stay filled, like karaoke
+            const length = word.endTime - word.startTime;
+            appearance.color = styles.color;
+            appearance.fillProgress = length > 0 ? clamp01(elapsed / length) : (elapsed >= 0 ? 1 : 0);
+            break;
+        }
+        case 'box':
+            appearance.color = styles.color;
+            appearance.boxColor = isActive ? styles.highlightColor : null;
+            break;
+    }
+    return appearance;
+};
+
+export const toDisplayText = (text: string, styles: SubtitleStyle) => styles.uppercase ? text.toUpperCase() : text;
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CaptionCue, SubtitleStyle } from '../types';
+import { DEFAULT_SUBTITLE_STYLE } from './captionStyles';
+import { layoutCaption, separateLayouts } from './captionLayout';
+
+const FRAME = { width: 1000, height: 500 };
+// Every character is 10px wide, so widths can be worked out by hand
+const measureText = (text: string) => text.length * 10;
+
+const caption = (text: string, words = text.split(' ')): CaptionCue => ({
+    id: 0,
+    text,
+    startTime: 0,
+    endTime: words.length,
+    words: words.map((word, i) => ({ word, startTime: i, endTime: i + 1 })),
+});
+
+const layout = (cue: CaptionCue, changes: Partial<SubtitleStyle> = {}) =>
+    layoutCaption(cue, { ...DEFAULT_SUBTITLE_STYLE, ...changes }, FRAME, measureText);
+
+describe('layoutCaption', () => {
+    it('centers a short caption on one line above the bottom margin', () => {
+        const result = layout(caption('hello world'));
+        expect(result.lines).toHaveLength(1);
+        const [line] = result.lines;
+        expect(line.width).toBe(110);
+        expect(line.left).toBe(445);
+        expect(line.words.map(w => w.left)).toEqual([445, 505]);
+        // positionY is 10% from the bottom
+        expect(line.top + result.lineHeight).toBeCloseTo(450);
+    });
+
+    it('wraps lines that would be wider than the frame allows', () => {
+        const words = Array.from({ length: 30 }, () => 'word');
+        const result = layout(caption(words.join(' ')), { segmentation: { ...DEFAULT_SUBTITLE_STYLE.segmentation, maxCharsPerLine: 0 } });
+        expect(result.lines.length).toBeGreaterThan(1);
+        result.lines.forEach(line => expect(line.width).toBeLessThanOrEqual(FRAME.width * 0.9));
+        expect(result.lines.flatMap(line => line.words.map(w => w.wordIndex))).toEqual(words.map((_, i) => i));
+    });
+
+    it('wraps at the segmentation character limit', () => {
+        const result = layout(caption('aaaa bbbb cccc'), { segmentation: { ...DEFAULT_SUBTITLE_STYLE.segmentation, maxCharsPerLine: 11 } });
+        expect(result.lines.map(line => line.words.map(w => w.text))).toEqual([['aaaa', 'bbbb'], ['cccc']]);
+        // Lines stack upwards from the bottom margin
+        expect(result.lines[0].top).toBeLessThan(result.lines[1].top);
+    });
+
+    it('shows the uppercase text but keeps the index of each timed word', () => {
+        const result = layout(caption('one  two', ['one', ' ', 'two']), { uppercase: true });
+        expect(result.lines[0].words).toMatchObject([{ wordIndex: 0, text: 'ONE' }, { wordIndex: 2, text: 'TWO' }]);
+    });
+
+    it('places right-to-left words from the right', () => {
+        const [line] = layout(caption('שלום עולם')).lines;
+        expect(line.words[0].left).toBeGreaterThan(line.words[1].left);
+        expect(line.words[1].left).toBe(line.left);
+    });
+
+    it('leaves no space between the words of an unspaced caption', () => {
+        const [line] = layout(caption('こんにちは世界', ['こんにちは', '世界'])).lines;
+        expect(line.width).toBe(70);
+        expect(line.words[1].left).toBe(line.words[0].left + line.words[0].width);
+    });
+});
+
+describe('separateLayouts', () => {
+    it('pushes the upper of two captions at the same place clear of the lower one', () => {
+        const lower = layout(caption('lower caption'));
+        const upper = layout(caption('upper caption'));
+        const [placedLower, placedUpper] = separateLayouts([lower, upper]);
+        expect(placedLower).toEqual(lower);
+        const upperBottom = placedUpper.lines[0].top + placedUpper.lineHeight;
+        expect(upperBottom).toBeLessThanOrEqual(placedLower.lines[0].top - placedLower.padding + 1e-9);
+    });
+});
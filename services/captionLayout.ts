@@ -0,0 +1,161 @@
+import { CaptionCue, SubtitleStyle } from '../types';
+import { toDisplayText } from './captionEffects';
+
+/**
+ * Returns the advance width of a string in pixels, in the caption font. On a canvas this is
+ * `ctx.measureText(text).width` after applying `captionFont`; tests can pass any function.
+ */
+export type MeasureText = (text: string) => number;
+
+export interface CaptionFont {
+    fontSize: number; // pixels
+    font: string; // CSS font shorthand
+    letterSpacing: number; // pixels
+}
+
+export interface WordBox {
+    wordIndex: number; // index into the cue's words
+    text: string; // as displayed, after the uppercase transform
+    left: number;
+    width: number;
+}
+
+export interface LayoutLine {
+    words: WordBox[];
+    left: number;
+    width: number;
+    top: number; // top of the line box, which the background fills
+    baseline: number; // bottom of the text, for textBaseline 'bottom'
+}
+
+export interface CaptionLayout {
+    font: CaptionFont;
+    lineHeight: number;
+    padding: number; // horizontal padding of the background around each line
+    lines: LayoutLine[];
+}
+
+// Share of the frame width a line may fill before wrapping
+const MAX_LINE_WIDTH = 0.9;
+const LINE_HEIGHT = 1.2;
+const BACKGROUND_PADDING = 0.2;
+
+// Hebrew, Arabic, Syriac, Thaana and N'Ko letters, and their presentation forms
+const RTL_CHARACTERS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+export const isRightToLeft = (text: string) => RTL_CHARACTERS.test(text);
+
+// Captions in languages written without spaces, like Japanese, are split into several timed words
+// but keep their text unspaced, so their words are put together with nothing between them
+export const wordSeparator = (caption: CaptionCue) => caption.words.length > 1 && !/\s/.test(caption.text) ? '' : ' ';
+
+export const captionFont = (styles: SubtitleStyle, videoHeight: number): CaptionFont => {
+    const fontSize = (styles.fontSize / 100) * videoHeight;
+    return {
+        fontSize,
+        font: `${fontSize}px ${styles.fontFamily}`,
+        letterSpacing: (styles.letterSpacing / 100) * fontSize,
+    };
+};
+
+/**
+ * Lays a caption out in a frame: wraps its words into centered lines and gives every word a box.
+ * Lines are stacked upwards from the style's vertical position. Both the burned-in render and the
+ * player preview draw from this layout, so they wrap and place words identically.
+ *
+ * Words are laid out from the cue's word list rather than by splitting its text, so each box keeps
+ * the index of the timed word it shows. Right-to-left captions place their words from the right.
+ */
+export const layoutCaption = (
+    caption: CaptionCue,
+    styles: SubtitleStyle,
+    frame: { width: number, height: number },
+    measureText: MeasureText,
+    videoHeight = frame.height
+): CaptionLayout => {
+    const font = captionFont(styles, videoHeight);
+    const lineHeight = font.fontSize * LINE_HEIGHT;
+    const maxWidth = frame.width * MAX_LINE_WIDTH;
+    const separator = wordSeparator(caption);
+    const spaceWidth = separator ? measureText(separator) : 0;
+
+    // Lines also wrap at the segmentation character limit, matching the line count the segmenter planned for
+    const maxChars = styles.segmentation.maxCharsPerLine;
+
+    const rows: WordBox[][] = [];
+    let row: WordBox[] = [];
+    let rowWidth = 0;
+    let rowChars = 0;
+    caption.words.forEach((word, wordIndex) => {
+        const text = toDisplayText(word.word.trim(), styles);
+        if (!text) return;
+        const width = measureText(text);
+        const tooWide = rowWidth + spaceWidth + width > maxWidth;
+        const tooLong = maxChars > 0 && rowChars + separator.length + text.length > maxChars;
+        if (row.length > 0 && (tooWide || tooLong)) {
+            rows.push(row);
+            row = [];
+            rowWidth = 0;
+            rowChars = 0;
+        }
+        rowWidth += (row.length > 0 ? spaceWidth : 0) + width;
+        rowChars += (row.length > 0 ? separator.length : 0) + text.length;
+        row.push({ wordIndex, text, left: 0, width });
+    });
+    if (row.length > 0) rows.push(row);
+
+    // The bottom of the last line sits at the style's position, measured from the bottom of the frame
+    const bottom = frame.height - (styles.positionY / 100) * frame.height;
+    const rightToLeft = isRightToLeft(caption.text);
+    const lines = rows.map((words, i) => {
+        const width = words.reduce((sum, w) => sum + w.width, 0) + spaceWidth * (words.length - 1);
+        const left = (frame.width - width) / 2;
+        let x = left;
+        for (const word of rightToLeft ? [...words].reverse() : words) {
+            word.left = x;
+            x += word.width + spaceWidth;
+        }
+        const top = bottom - (rows.length - i) * lineHeight;
+        return { words, left, width, top, baseline: top + (lineHeight + font.fontSize) / 2 };
+    });
+
+    return { font, lineHeight, padding: font.fontSize * BACKGROUND_PADDING, lines };
+};
+
+const layoutTop = (layout: CaptionLayout) => layout.lines[0]?.top ?? 0;
+const layoutBottom = (layout: CaptionLayout) =>
+    layout.lines.length > 0 ? layout.lines[layout.lines.length - 1].top + layout.lineHeight : 0;
+
+const shiftLayout = (layout: CaptionLayout, dy: number): CaptionLayout => dy === 0 ? layout : {
+    ...layout,
+    lines: layout.lines.map(line => ({ ...line, top: line.top + dy, baseline: line.baseline + dy })),
+};
+
+/**
+ * Moves the layouts of captions shown together apart so they never overlap. The lowest caption
+ * keeps its place and each one above it is pushed up until it clears the one below; if that runs
+ * off the top of the frame, the whole stack moves down. Layouts are returned in the order given.
+ */
+export const separateLayouts = (layouts: CaptionLayout[]): CaptionLayout[] => {
+    const placed = [...layouts];
+    const order = layouts
+        .map((layout, index) => ({ layout, index }))
+        .filter(({ layout }) => layout.lines.length > 0)
+        .sort((a, b) => layoutBottom(b.layout) - layoutBottom(a.layout));
+
+    let limit = Infinity;
+    let previousPadding = 0;
+    for (const { layout, index } of order) {
+        // Backgrounds reach a padding beyond the lines, so keep that much space between captions
+        const gap = Math.max(previousPadding, layout.padding);
+        const overlap = layoutBottom(layout) - (limit - gap);
+        placed[index] = shiftLayout(layout, overlap > 0 ? -overlap : 0);
+        limit = layoutTop(placed[index]);
+        previousPadding = layout.padding;
+    }
+
+    if (order.length > 1 && limit < 0) {
+        for (const { index } of order) placed[index] = shiftLayout(placed[index], -limit);
+    }
+    return placed;
+};
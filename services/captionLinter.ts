@@ -0,0 +1,223 @@
+import { CaptionCue, SegmentationRules, WordCue } from '../types';
+
+export interface LintRules {
+    maxCharsPerSecond: number;
+    minDurationMs: number;
+    maxDurationMs: number;
+    maxCharsPerLine: number;
+    minGapMs: number; // gaps shorter than this, but not closed, make captions flicker
+}
+
+// Common broadcast and streaming guidelines: 17 CPS, 5/6 s to 7 s on screen, 42 characters, 2 frames at 24 fps
+export const DEFAULT_LINT_RULES: LintRules = {
+    maxCharsPerSecond: 17,
+    minDurationMs: 833,
+    maxDurationMs: 7000,
+    maxCharsPerLine: 42,
+    minGapMs: 83,
+};
+
+export type LintIssueKind = 'reading-speed' | 'too-short' | 'too-long' | 'line-length' | 'small-gap' | 'overlap' | 'zero-duration';
+
+export interface WordTimeChange {
+    index: number; // word index across all captions, which is also its index across the source cues
+    startTime: number;
+    endTime: number;
+}
+
+/**
+ * A fix either retimes words in the source cues or tightens the segmentation rules,
+ * since the captions themselves are derived from both.
+ */
+export type LintFix =
+    | { kind: 'words', label: string, changes: WordTimeChange[] }
+    | { kind: 'rules', label: string, rules: Partial<SegmentationRules> };
+
+export interface LintIssue {
+    kind: LintIssueKind;
+    severity: 'error' | 'warning';
+    captionIndex: number;
+    time: number; // where to seek to see the problem
+    message: string;
+    fix: LintFix | null;
+}
+
+// Length given to a zero-duration word when it is fixed, in seconds
+const FIXED_WORD_DURATION = 0.1;
+const EPSILON = 1e-3;
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+/**
+ * Lengthens a caption by moving its last word's end into the silence after it, up to the next caption.
+ * Returns null when there is no silence to use.
+ */
+const extendIntoPause = (
+    caption: CaptionCue,
+    lastWordIndex: number,
+    targetDuration: number,
+    nextStart: number,
+    label: string
+): LintFix | null => {
+    const lastWord = caption.words[caption.words.length - 1];
+    const endTime = Math.min(caption.startTime + targetDuration, nextStart);
+    if (!lastWord || endTime <= Math.max(lastWord.endTime, caption.endTime) + EPSILON) return null;
+    return { kind: 'words', label, changes: [{ index: lastWordIndex, startTime: lastWord.startTime, endTime }] };
+};
+
+// Gives a zero-length word some time from the silence after it, or failing that before it
+const fixZeroDuration = (words: WordCue[], index: number): LintFix | null => {
+    const word = words[index];
+    const next = words[index + 1];
+    const previous = words[index - 1];
+    const endTime = Math.min(word.startTime + FIXED_WORD_DURATION, next ? next.startTime : Infinity);
+    if (endTime > word.startTime + EPSILON) {
+        return { kind: 'words', label: 'Lengthen word', changes: [{ index, startTime: word.startTime, endTime }] };
+    }
+    const startTime = Math.max(word.endTime - FIXED_WORD_DURATION, previous ? previous.endTime : 0);
+    if (startTime < word.endTime - EPSILON) {
+        return { kind: 'words', label: 'Lengthen word', changes: [{ index, startTime, endTime: word.endTime }] };
+    }
+    return null;
+};
+
+/**
+ * Checks captions against delivery rules: reading speed, duration, line length, gaps, overlaps
+ * and zero-length words. `splitLines` returns the lines a caption is displayed on, so line length
+ * is checked against the real layout.
+ */
+export const lintCaptions = (
+    captions: CaptionCue[],
+    rules: LintRules,
+    segmentation: SegmentationRules,
+    splitLines: (caption: CaptionCue) => string[]
+): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    const words = captions.flatMap(c => c.words);
+    let wordOffset = 0;
+
+    captions.forEach((caption, captionIndex) => {
+        const firstWordIndex = wordOffset;
+        const lastWordIndex = wordOffset + caption.words.length - 1;
+        wordOffset += caption.words.length;
+
+        const duration = caption.endTime - caption.startTime;
+        const next = captions[captionIndex + 1];
+        const nextStart = next ? next.startTime : Infinity;
+        const base = { captionIndex, time: caption.startTime };
+
+        const characters = caption.text.trim().length;
+        const cps = duration > 0 ? characters / duration : Infinity;
+        if (cps > rules.maxCharsPerSecond) {
+            issues.push({
+                ...base,
+                kind: 'reading-speed',
+                severity: 'warning',
+                message: `Reading speed ${Number.isFinite(cps) ? cps.toFixed(1) : '∞'} characters/s is above ${rules.maxCharsPerSecond}.`,
+                fix: extendIntoPause(caption, lastWordIndex, characters / rules.maxCharsPerSecond, nextStart, 'Extend into the pause'),
+            });
+        }
+
+        if (duration * 1000 < rules.minDurationMs) {
+            issues.push({
+                ...base,
+                kind: 'too-short',
+                severity: 'warning',
+                message: `On screen for ${formatSeconds(duration)}, less than ${formatSeconds(rules.minDurationMs / 1000)}.`,
+                fix: extendIntoPause(caption, lastWordIndex, rules.minDurationMs / 1000, nextStart, 'Extend into the pause')
+                    ?? (segmentation.minDurationMs < rules.minDurationMs
+                        ? { kind: 'rules', label: 'Merge short captions', rules: { minDurationMs: rules.minDurationMs } }
+                        : null),
+            });
+        } else if (duration * 1000 > rules.maxDurationMs) {
+            const tighter = segmentation.maxDurationMs === 0 || segmentation.maxDurationMs > rules.maxDurationMs;
+            issues.push({
+                ...base,
+                kind: 'too-long',
+                severity: 'warning',
+                message: `On screen for ${formatSeconds(duration)}, more than ${formatSeconds(rules.maxDurationMs / 1000)}.`,
+                fix: tighter ? { kind: 'rules', label: 'Split long captions', rules: { maxDurationMs: rules.maxDurationMs } } : null,
+            });
+        }
+
+        const longest = Math.max(0, ...splitLines(caption).map(line => line.length));
+        if (longest > rules.maxCharsPerLine) {
+            issues.push({
+                ...base,
+                kind: 'line-length',
+                severity: 'warning',
+                message: `A line has ${longest} characters, more than ${rules.maxCharsPerLine}.`,
+                fix: segmentation.maxCharsPerLine === 0 || segmentation.maxCharsPerLine > rules.maxCharsPerLine
+                    ? { kind: 'rules', label: 'Wrap at the limit', rules: { maxCharsPerLine: rules.maxCharsPerLine, maxLines: segmentation.maxLines || 2 } }
+                    : null,
+            });
+        }
+
+        if (next) {
+            const gap = next.startTime - caption.endTime;
+            const lastWord = caption.words[caption.words.length - 1];
+            const nextFirstWord = next.words[0];
+            if (gap < -EPSILON) {
+                // Trim this caption back to where the next one starts, keeping its last word at least a little visible
+                const endTime = Math.max(next.startTime, (lastWord?.startTime ?? caption.startTime) + EPSILON);
+                issues.push({
+                    captionIndex,
+                    time: next.startTime,
+                    kind: 'overlap',
+                    severity: 'error',
+                    message: `Overlaps the next caption by ${formatSeconds(-gap)}.`,
+                    fix: lastWord && nextFirstWord && endTime <= next.startTime + EPSILON
+                        ? { kind: 'words', label: 'Trim to the next caption', changes: [{ index: lastWordIndex, startTime: lastWord.startTime, endTime }] }
+                        : null,
+                });
+            } else if (gap > EPSILON && gap * 1000 < rules.minGapMs) {
+                issues.push({
+                    captionIndex,
+                    time: caption.endTime,
+                    kind: 'small-gap',
+                    severity: 'warning',
+                    message: `Only ${Math.round(gap * 1000)} ms before the next caption; captions will flicker.`,
+                    fix: lastWord
+                        ? { kind: 'words', label: 'Close the gap', changes: [{ index: lastWordIndex, startTime: lastWord.startTime, endTime: next.startTime }] }
+                        : null,
+                });
+            }
+        }
+
+        caption.words.forEach((word, i) => {
+            if (word.endTime - word.startTime > EPSILON) return;
+            issues.push({
+                captionIndex,
+                time: word.startTime,
+                kind: 'zero-duration',
+                severity: 'error',
+                message: `"${word.word}" has no duration, so it is never highlighted.`,
+                fix: fixZeroDuration(words, firstWordIndex + i),
+            });
+        });
+    });
+
+    return issues;
+};
+
+/**
+ * Combines the fixes of several issues into one set of word changes and one rules update.
+ * When two fixes retime the same word, it takes the span covering both, so one fix does not undo another.
+ */
+export const combineLintFixes = (fixes: LintFix[]): { changes: WordTimeChange[], rules: Partial<SegmentationRules> } => {
+    const changes = new Map<number, WordTimeChange>();
+    let rules: Partial<SegmentationRules> = {};
+    for (const fix of fixes) {
+        if (fix.kind === 'words') {
+            for (const change of fix.changes) {
+                const existing = changes.get(change.index);
+                changes.set(change.index, existing
+                    ? { index: change.index, startTime: Math.min(existing.startTime, change.startTime), endTime: Math.max(existing.endTime, change.endTime) }
+                    : change);
+            }
+        } else {
+            rules = { ...rules, ...fix.rules };
+        }
+    }
+    return { changes: [...changes.values()], rules };
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedCue, SegmentationRules, WordCue } from '../types';
+import { countLines, SEGMENTATION_PRESETS, segmentCaptions } from './captionSegmenter';
+
+const rules = (id: string): SegmentationRules => SEGMENTATION_PRESETS.find(preset => preset.id === id)!.rules;
+
+// Only the rules a test sets apply
+const NO_LIMITS: SegmentationRules = {
+    maxWordsPerCue: 0, maxCharsPerLine: 0, maxLines: 0, breakOnPunctuation: false,
+    maxGapMs: 0, minDurationMs: 0, maxDurationMs: 0, keepFunctionWords: false,
+};
+
+// Words back to back, each lasting `length` seconds, starting at `start`
+const words = (text: string, start = 0, length = 0.3): WordCue[] =>
+    text.split(' ').map((word, i) => ({ word, startTime: start + i * length, endTime: start + (i + 1) * length }));
+
+const cue = (timed: WordCue[]): GeneratedCue => ({ startTime: timed[0].startTime, endTime: timed[timed.length - 1].endTime, words: timed });
+
+const texts = (cues: GeneratedCue[], segmentation: SegmentationRules) => segmentCaptions(cues, segmentation).map(caption => caption.text);
+
+describe('segmentCaptions', () => {
+    it('breaks at the word limit and keeps every word in order', () => {
+        const source = [cue(words('one two three four five six seven eight nine ten'))];
+        const captions = segmentCaptions(source, rules('fixed'));
+        expect(captions.map(c => c.words.length)).toEqual([7, 3]);
+        expect(captions.flatMap(c => c.words)).toEqual(source[0].words);
+        expect(captions.map(c => c.id)).toEqual([0, 1]);
+    });
+
+    it('starts a new caption at every source cue boundary', () => {
+        expect(texts([cue(words('hello there')), cue(words('good morning', 0.6))], rules('standard')))
+            .toEqual(['hello there', 'good morning']);
+    });
+
+    it('starts a new caption when the speaker changes', () => {
+        const timed = words('hi hello').map((word, i) => ({ ...word, speaker: i === 0 ? 'S1' : 'S2' }));
+        expect(texts([cue(timed)], NO_LIMITS)).toEqual(['hi', 'hello']);
+    });
+
+    it('starts a new caption after a long pause', () => {
+        const timed = [...words('before the'), ...words('pause', 2)];
+        expect(texts([cue(timed)], { ...NO_LIMITS, maxGapMs: 700 })).toEqual(['before the', 'pause']);
+    });
+
+    it('breaks after sentence punctuation once the caption has been up long enough', () => {
+        const segmentation = { ...NO_LIMITS, breakOnPunctuation: true, minDurationMs: 500 };
+        expect(texts([cue(words('Yes. It works. Really it does'))], segmentation)).toEqual(['Yes. It works.', 'Really it does']);
+    });
+
+    it('moves a trailing function word along to the next caption', () => {
+        const segmentation = { ...NO_LIMITS, maxWordsPerCue: 3, keepFunctionWords: true };
+        expect(texts([cue(words('we went to the shop'))], segmentation)).toEqual(['we went', 'to the shop']);
+        expect(texts([cue(words('we went to the shop'))], { ...segmentation, keepFunctionWords: false }))
+            .toEqual(['we went to', 'the shop']);
+    });
+
+    it('breaks when the words no longer fit the lines', () => {
+        const segmentation = { ...NO_LIMITS, maxCharsPerLine: 10, maxLines: 1 };
+        expect(texts([cue(words('aaaa bbbb cccc'))], segmentation)).toEqual(['aaaa bbbb', 'cccc']);
+    });
+
+    it('keeps short captions up for the minimum duration without running into the next', () => {
+        const timed = [...words('quick', 0, 0.2), ...words('next', 0.5, 0.2)];
+        const captions = segmentCaptions([cue(timed.slice(0, 1)), cue(timed.slice(1))], { ...NO_LIMITS, minDurationMs: 1000 });
+        expect(captions[0].endTime).toBe(0.5);
+        expect(captions[1].endTime).toBeCloseTo(1.5);
+    });
+});
+
+describe('countLines', () => {
+    it('wraps greedily at the character limit', () => {
+        expect(countLines(['aaaa', 'bbbb', 'cccc'], 9)).toBe(2);
+        expect(countLines(['aaaa', 'bbbb', 'cccc'], 0)).toBe(1);
+        expect(countLines([], 10)).toBe(0);
+    });
+});
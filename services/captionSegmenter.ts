@@ -0,0 +1,159 @@
+import { CaptionCue, GeneratedCue, SegmentationRules, WordCue } from '../types';
+
+export type SegmentationPresetId = 'standard' | 'tiktok' | 'broadcast' | 'fixed';
+
+export const SEGMENTATION_PRESETS: { id: SegmentationPresetId, label: string, rules: SegmentationRules }[] = [
+    {
+        id: 'standard',
+        label: 'Standard (up to 7 words)',
+        rules: { maxWordsPerCue: 7, maxCharsPerLine: 42, maxLines: 2, breakOnPunctuation: true, maxGapMs: 700, minDurationMs: 700, maxDurationMs: 5000, keepFunctionWords: true },
+    },
+    {
+        id: 'tiktok',
+        label: 'TikTok (1–3 words)',
+        rules: { maxWordsPerCue: 3, maxCharsPerLine: 20, maxLines: 1, breakOnPunctuation: true, maxGapMs: 300, minDurationMs: 300, maxDurationMs: 1500, keepFunctionWords: true },
+    },
+    {
+        id: 'broadcast',
+        label: 'Broadcast (2×42 chars)',
+        rules: { maxWordsPerCue: 0, maxCharsPerLine: 42, maxLines: 2, breakOnPunctuation: true, maxGapMs: 1500, minDurationMs: 1000, maxDurationMs: 7000, keepFunctionWords: true },
+    },
+    {
+        id: 'fixed',
+        label: 'Fixed word count',
+        rules: { maxWordsPerCue: 7, maxCharsPerLine: 0, maxLines: 0, breakOnPunctuation: false, maxGapMs: 0, minDurationMs: 0, maxDurationMs: 0, keepFunctionWords: false },
+    },
+];
+
+export const DEFAULT_SEGMENTATION_RULES: SegmentationRules = SEGMENTATION_PRESETS[0].rules;
+
+/**
+ * The preset whose rules match exactly, or undefined once any rule has been customised.
+ */
+export const findSegmentationPreset = (rules: SegmentationRules) =>
+    SEGMENTATION_PRESETS.find(preset =>
+        (Object.keys(preset.rules) as (keyof SegmentationRules)[]).every(key => preset.rules[key] === rules[key]));
+
+// Trailing quotes and brackets do not hide the punctuation before them
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+const CLAUSE_END = /[,;:–—]["'”’)\]]*$/;
+
+// Short words that lead into the next word and read badly at the end of a caption
+const FUNCTION_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'but', 'or', 'nor', 'so', 'to', 'of', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'into',
+    'as', 'if', 'that', 'than', 'then', 'i', 'my', 'your', 'our', 'their', 'his', 'her', 'its', 'we', 'you', 'they',
+    'is', 'are', 'was', 'be', 'not', 'no', 'this', 'these', 'those', 'some', 'any', 'every', 'just', 'very',
+]);
+
+const isFunctionWord = (word: string) => {
+    const trimmed = word.trim();
+    // A word followed by punctuation closes its phrase, so it can end a caption
+    return /\p{L}$/u.test(trimmed) && FUNCTION_WORDS.has(trimmed.toLowerCase());
+};
+
+/**
+ * Counts the lines some words wrap to at a character limit, breaking greedily between words
+ * like the caption layout does.
+ */
+export const countLines = (words: string[], maxCharsPerLine: number): number => {
+    let lines = 0;
+    let length = 0;
+    for (const word of words) {
+        if (!word) continue;
+        if (lines === 0 || (maxCharsPerLine > 0 && length + 1 + word.length > maxCharsPerLine)) {
+            lines++;
+            length = word.length;
+        } else {
+            length += 1 + word.length;
+        }
+    }
+    return lines;
+};
+
+const durationMs = (words: WordCue[]) =>
+    words.length === 0 ? 0 : (words[words.length - 1].endTime - words[0].startTime) * 1000;
+
+const fits = (words: WordCue[], rules: SegmentationRules): boolean => {
+    if (rules.maxWordsPerCue > 0 && words.length > rules.maxWordsPerCue) return false;
+    if (rules.maxCharsPerLine > 0 && rules.maxLines > 0
+        && countLines(words.map(w => w.word.trim()), rules.maxCharsPerLine) > rules.maxLines) return false;
+    // A single word longer than the limit still has to go somewhere
+    if (rules.maxDurationMs > 0 && words.length > 1 && durationMs(words) > rules.maxDurationMs) return false;
+    return true;
+};
+
+const isLongPause = (previous: WordCue, next: WordCue, rules: SegmentationRules) =>
+    rules.maxGapMs > 0 && (next.startTime - previous.endTime) * 1000 > rules.maxGapMs;
+
+/**
+ * Groups the words of the source cues into captions. Source cue boundaries, speaker changes and long pauses
+ * always start a new caption, so splitting or merging source cues changes the captions; punctuation does once the
+ * caption has been on screen for the minimum duration; and size limits (words, lines of characters,
+ * duration) force a break, moving trailing function words along to the next caption.
+ * Every word is kept, in order, so word positions still map back to the source cues.
+ */
+export const segmentCaptions = (cues: GeneratedCue[], rules: SegmentationRules): CaptionCue[] => {
+    const words = cues.flatMap(cue => cue.words);
+    const cueStarts = new Set(cues.map(cue => cue.words[0]));
+    // A caption never spans two source cues or mixes speakers, whatever the other rules say
+    const isHardBreak = (previous: WordCue, next: WordCue) =>
+        cueStarts.has(next) || previous.speaker !== next.speaker || isLongPause(previous, next, rules);
+
+    const groups: WordCue[][] = [];
+    let current: WordCue[] = [];
+
+    for (const word of words) {
+        if (current.length > 0) {
+            const previous = current[current.length - 1];
+            const punctuationBreak = rules.breakOnPunctuation
+                && durationMs(current) >= rules.minDurationMs
+                && (SENTENCE_END.test(previous.word) || (CLAUSE_END.test(previous.word) && current.length >= 2));
+
+            if (isHardBreak(previous, word) || punctuationBreak) {
+                groups.push(current);
+                current = [];
+            } else if (!fits([...current, word], rules)) {
+                const carried: WordCue[] = [];
+                while (rules.keepFunctionWords && current.length > 1 && isFunctionWord(current[current.length - 1].word)
+                    && fits([current[current.length - 1], ...carried, word], rules)) {
+                    carried.unshift(current.pop()!);
+                }
+                groups.push(current);
+                current = carried;
+            }
+        }
+        current.push(word);
+    }
+    if (current.length > 0) groups.push(current);
+
+    // Fold captions that would flash by into a neighbour, when the pair still fits and no hard break separates them
+    if (rules.minDurationMs > 0) {
+        for (let i = 0; i < groups.length; i++) {
+            if (durationMs(groups[i]) >= rules.minDurationMs) continue;
+            const next = groups[i + 1];
+            const previous = groups[i - 1];
+            if (next && !isHardBreak(groups[i][groups[i].length - 1], next[0]) && fits([...groups[i], ...next], rules)) {
+                groups.splice(i, 2, [...groups[i], ...next]);
+                i--;
+            } else if (previous && !isHardBreak(previous[previous.length - 1], groups[i][0]) && fits([...previous, ...groups[i]], rules)) {
+                groups.splice(i - 1, 2, [...previous, ...groups[i]]);
+                i -= 2;
+            }
+        }
+    }
+
+    return groups.map((group, i) => {
+        const startTime = group[0].startTime;
+        const lastEnd = group[group.length - 1].endTime;
+        // Short captions stay up for the minimum duration, but never into the next caption
+        const nextStart = groups[i + 1]?.[0].startTime ?? Infinity;
+        const endTime = Math.max(lastEnd, Math.min(startTime + rules.minDurationMs / 1000, nextStart));
+        return {
+            id: i,
+            words: group,
+            startTime,
+            endTime,
+            text: group.map(w => w.word).join(' '),
+        };
+    });
+};
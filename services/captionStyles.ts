@@ -0,0 +1,23 @@
+import { SubtitleStyle } from '../types';
+import { DEFAULT_SEGMENTATION_RULES } from './captionSegmenter';
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+    fontSize: 7, // percentage of video height
+    positionY: 10, // percentage from bottom
+    fontFamily: "'The Luckiest Guy', cursive",
+    color: '#FFFFFF',
+    backgroundColor: '#000000',
+    highlightColor: '#FFFF00',
+    showBackground: true,
+    segmentation: DEFAULT_SEGMENTATION_RULES,
+    strokeWidth: 0,
+    strokeColor: '#000000',
+    showShadow: false,
+    shadowColor: '#000000',
+    shadowBlur: 10,
+    shadowOffset: 5,
+    uppercase: false,
+    letterSpacing: 0,
+    activeWordEffect: 'color',
+    speakerStyles: {},
+};
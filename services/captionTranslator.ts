@@ -0,0 +1,108 @@
+import { CaptionCue, TranslationProvider, WordCue } from '../types';
+import { distributeWordTimes } from './subtitleParser';
+import { captionSpeaker } from './speakers';
+import { throwIfAborted } from './retry';
+
+export const TRANSLATION_LANGUAGES: { code: string, name: string }[] = [
+    { code: 'es', name: 'Spanish' },
+    { code: 'fr', name: 'French' },
+    { code: 'ar', name: 'Arabic' },
+    { code: 'de', name: 'German' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'it', name: 'Italian' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'tr', name: 'Turkish' },
+    { code: 'ru', name: 'Russian' },
+    { code: 'hi', name: 'Hindi' },
+    { code: 'ur', name: 'Urdu' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'zh', name: 'Chinese (Simplified)' },
+    { code: 'en', name: 'English' },
+];
+
+// Captions sent per request: enough context for a good translation, small enough to fit a reply
+const BATCH_SIZE = 40;
+
+/**
+ * The prompt asking a model to translate subtitle lines. Providers only differ in the shape of the
+ * reply they ask for, which `replyFormat` describes in one sentence.
+ */
+export const translationPrompt = (texts: string[], targetLanguage: string, replyFormat: string): string =>
+    `Translate each of the following subtitle lines into ${targetLanguage}.
+The lines are consecutive captions of one video, so use the surrounding lines for context,
+but translate every line on its own: do not merge, split, reorder or drop lines.
+Keep each translation about as short as the original so it can be read in the same time.
+${replyFormat}
+
+Lines:
+${JSON.stringify(texts, null, 1)}
+`;
+
+// Languages written without spaces between words
+const UNSPACED_LANGUAGES = new Set(['ja', 'zh', 'th']);
+
+/**
+ * Splits a translated line into the words that get highlighted one at a time. Languages without
+ * spaces are split with the browser's word segmenter, keeping punctuation on the word before it.
+ */
+const splitWords = (text: string, language: string): string[] => {
+    if (!UNSPACED_LANGUAGES.has(language)) return text.split(/\s+/).filter(Boolean);
+    const words: string[] = [];
+    for (const { segment, isWordLike } of new Intl.Segmenter(language, { granularity: 'word' }).segment(text)) {
+        if (!segment.trim()) continue;
+        if (!isWordLike && words.length > 0) {
+            words[words.length - 1] += segment;
+        } else {
+            words.push(segment);
+        }
+    }
+    return words;
+};
+
+/**
+ * Gives a translated caption word timings. The cue keeps its source timing; the translated words
+ * share the time the source words were spoken, in proportion to their length, since word order
+ * differs between languages and there is no way to match words one to one. Captions have a single
+ * speaker, who is kept.
+ */
+export const retimeTranslation = (caption: CaptionCue, text: string, language: string): CaptionCue => {
+    const spokenStart = caption.words[0]?.startTime ?? caption.startTime;
+    const spokenEnd = caption.words[caption.words.length - 1]?.endTime ?? caption.endTime;
+    const speaker = captionSpeaker(caption);
+    const words: WordCue[] = distributeWordTimes(splitWords(text, language), spokenStart, spokenEnd)
+        .map(word => speaker ? { ...word, speaker } : word);
+    return {
+        ...caption,
+        text: words.map(w => w.word).join(UNSPACED_LANGUAGES.has(language) ? '' : ' '),
+        words,
+    };
+};
+
+/**
+ * Translates captions into another language in batches, returning cues with the same timing.
+ * Captions the translator leaves empty keep their source text rather than disappearing.
+ */
+export const translateCaptions = async (
+    captions: CaptionCue[],
+    language: { code: string, name: string },
+    provider: TranslationProvider,
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
+): Promise<CaptionCue[]> => {
+    const translated: CaptionCue[] = [];
+    for (let start = 0; start < captions.length; start += BATCH_SIZE) {
+        throwIfAborted(signal);
+        const batch = captions.slice(start, start + BATCH_SIZE);
+        setStatusMessage(`Translating captions into ${language.name} with ${provider.label} (${start + batch.length}/${captions.length})...`);
+        const texts = await provider.translate(batch.map(c => c.text), language.name, setStatusMessage, signal);
+        if (texts.length !== batch.length) {
+            throw new Error(`The translation returned ${texts.length} lines for ${batch.length} captions.`);
+        }
+        batch.forEach((caption, i) => {
+            const text = texts[i].replace(/\s+/g, ' ').trim();
+            translated.push(text ? retimeTranslation(caption, text, language.code) : caption);
+        });
+    }
+    return translated;
+};
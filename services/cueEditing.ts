@@ -0,0 +1,177 @@
+import { GeneratedCue, WordCue } from '../types';
+import { distributeWordTimes } from './subtitleParser';
+
+// The shortest a word may become when its boundaries are edited, in seconds
+const MIN_WORD_DURATION = 0.01;
+
+// Recomputes a cue's bounds from its words so derived captions and exports stay consistent
+const withBoundsFromWords = (cue: GeneratedCue): GeneratedCue => {
+    if (cue.words.length === 0) return cue;
+    return {
+        ...cue,
+        startTime: cue.words[0].startTime,
+        endTime: cue.words[cue.words.length - 1].endTime,
+    };
+};
+
+const replaceAt = <T>(items: T[], index: number, ...replacement: T[]): T[] =>
+    [...items.slice(0, index), ...replacement, ...items.slice(index + 1)];
+
+/**
+ * Changes the text of a single word. Whitespace splits it into several words sharing its time span,
+ * and an empty value removes it (and the cue, if it was the last word).
+ */
+export const setWordText = (cues: GeneratedCue[], cueIndex: number, wordIndex: number, text: string): GeneratedCue[] => {
+    const cue = cues[cueIndex];
+    const word = cue?.words[wordIndex];
+    if (!word) return cues;
+
+    const parts = text.split(/\s+/).filter(Boolean);
+    const replacement = parts.length === 1
+        ? [{ ...word, word: parts[0] }]
+        : distributeWordTimes(parts, word.startTime, word.endTime);
+    const words = [...cue.words.slice(0, wordIndex), ...replacement, ...cue.words.slice(wordIndex + 1)];
+
+    if (words.length === 0) {
+        return cues.filter((_, i) => i !== cueIndex);
+    }
+    return replaceAt(cues, cueIndex, withBoundsFromWords({ ...cue, words }));
+};
+
+/**
+ * Moves one boundary of a word, clamped so it never crosses its own other boundary or its neighbours.
+ */
+export const setWordBoundary = (
+    cues: GeneratedCue[],
+    cueIndex: number,
+    wordIndex: number,
+    edge: 'start' | 'end',
+    time: number
+): GeneratedCue[] => {
+    const cue = cues[cueIndex];
+    const word = cue?.words[wordIndex];
+    if (!word) return cues;
+
+    const allWords = cues.flatMap(c => c.words);
+    const globalIndex = cues.slice(0, cueIndex).reduce((n, c) => n + c.words.length, 0) + wordIndex;
+    const previous = allWords[globalIndex - 1];
+    const next = allWords[globalIndex + 1];
+
+    let updated: WordCue;
+    if (edge === 'start') {
+        const min = previous ? previous.endTime : 0;
+        const max = word.endTime - MIN_WORD_DURATION;
+        updated = { ...word, startTime: Math.min(max, Math.max(min, time)) };
+    } else {
+        const min = word.startTime + MIN_WORD_DURATION;
+        const max = next ? next.startTime : Infinity;
+        updated = { ...word, endTime: Math.max(min, Math.min(max, time)) };
+    }
+
+    const words = replaceAt(cue.words, wordIndex, updated);
+    return replaceAt(cues, cueIndex, withBoundsFromWords({ ...cue, words }));
+};
+
+/**
+ * Moves a cue's start or end by retiming its first or last word.
+ */
+export const setCueBoundary = (cues: GeneratedCue[], cueIndex: number, edge: 'start' | 'end', time: number): GeneratedCue[] => {
+    const cue = cues[cueIndex];
+    if (!cue || cue.words.length === 0) return cues;
+    const wordIndex = edge === 'start' ? 0 : cue.words.length - 1;
+    return setWordBoundary(cues, cueIndex, wordIndex, edge, time);
+};
+
+/**
+ * Shifts a whole cue and all of its words by the given number of seconds, without overlapping its neighbours.
+ * Only the neighbour the cue moves towards limits the shift, and a cue that already overlaps it stays put,
+ * so a shift is never turned around.
+ */
+export const shiftCue = (cues: GeneratedCue[], cueIndex: number, delta: number): GeneratedCue[] => {
+    const cue = cues[cueIndex];
+    if (!cue) return cues;
+
+    const previousEnd = cueIndex > 0 ? cues[cueIndex - 1].endTime : 0;
+    const nextStart = cueIndex < cues.length - 1 ? cues[cueIndex + 1].startTime : Infinity;
+    const clamped = delta < 0
+        ? Math.max(delta, Math.min(0, previousEnd - cue.startTime))
+        : Math.min(delta, Math.max(0, nextStart - cue.endTime));
+    if (clamped === 0) return cues;
+
+    return replaceAt(cues, cueIndex, {
+        ...cue,
+        startTime: cue.startTime + clamped,
+        endTime: cue.endTime + clamped,
+        words: cue.words.map(w => ({ ...w, startTime: w.startTime + clamped, endTime: w.endTime + clamped })),
+    });
+};
+
+/**
+ * Splits a cue in two so that the word at `wordIndex` starts the second cue.
+ */
+export const splitCue = (cues: GeneratedCue[], cueIndex: number, wordIndex: number): GeneratedCue[] => {
+    const cue = cues[cueIndex];
+    if (!cue || wordIndex <= 0 || wordIndex >= cue.words.length) return cues;
+
+    const first = withBoundsFromWords({ ...cue, words: cue.words.slice(0, wordIndex) });
+    const second = withBoundsFromWords({ ...cue, words: cue.words.slice(wordIndex) });
+    return replaceAt(cues, cueIndex, first, second);
+};
+
+/**
+ * Merges a cue with the one that follows it.
+ */
+export const mergeWithNextCue = (cues: GeneratedCue[], cueIndex: number): GeneratedCue[] => {
+    const cue = cues[cueIndex];
+    const next = cues[cueIndex + 1];
+    if (!cue || !next) return cues;
+
+    const merged = withBoundsFromWords({
+        startTime: Math.min(cue.startTime, next.startTime),
+        endTime: Math.max(cue.endTime, next.endTime),
+        words: [...cue.words, ...next.words],
+    });
+    return [...cues.slice(0, cueIndex), merged, ...cues.slice(cueIndex + 2)];
+};
+
+/**
+ * Removes a cue entirely.
+ */
+export const deleteCue = (cues: GeneratedCue[], cueIndex: number): GeneratedCue[] =>
+    cues.filter((_, i) => i !== cueIndex);
+
+/**
+ * Finds the cue and word position of a word given its index across all cues,
+ * which is how derived CaptionCue words map back to the source cues.
+ */
+export const locateWord = (cues: GeneratedCue[], globalIndex: number): { cueIndex: number, wordIndex: number } | null => {
+    let remaining = globalIndex;
+    for (let cueIndex = 0; cueIndex < cues.length; cueIndex++) {
+        const count = cues[cueIndex].words.length;
+        if (remaining < count) return { cueIndex, wordIndex: remaining };
+        remaining -= count;
+    }
+    return null;
+};
+
+/**
+ * Sets the times of words given by their index across all cues. Callers are responsible for
+ * keeping the new times in order; this only writes them and updates the cue bounds.
+ */
+export const setWordTimes = (
+    cues: GeneratedCue[],
+    changes: { index: number, startTime: number, endTime: number }[]
+): GeneratedCue[] => {
+    const byIndex = new Map(changes.map(change => [change.index, change]));
+    let globalIndex = 0;
+    return cues.map(cue => {
+        let changed = false;
+        const words = cue.words.map(word => {
+            const change = byIndex.get(globalIndex++);
+            if (!change) return word;
+            changed = true;
+            return { ...word, startTime: change.startTime, endTime: change.endTime };
+        });
+        return changed ? withBoundsFromWords({ ...cue, words }) : cue;
+    });
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { WordCue } from '../types';
+import { validateCues } from './cueValidator';
+
+const word = (text: string, startTime: number, endTime: number): WordCue => ({ word: text, startTime, endTime });
+
+const cueOf = (...words: WordCue[]) => ({ startTime: words[0].startTime, endTime: words[words.length - 1].endTime, words });
+
+const texts = (cues: { words: WordCue[] }[]) => cues.map(cue => cue.words.map(w => w.word).join(' '));
+
+describe('validateCues', () => {
+    it('throws when the response is not a list', () => {
+        expect(() => validateCues({ cues: [] }, 10)).toThrow('not a list');
+    });
+
+    it('drops malformed words and cues left empty', () => {
+        const { cues, report } = validateCues([
+            { words: [word('kept', 0, 0.5), { word: '', startTime: 1, endTime: 2 }, { word: 'x', startTime: 'soon', endTime: 2 }] },
+            { words: [null] },
+        ], 10);
+        expect(texts(cues)).toEqual(['kept']);
+        expect(report.droppedWords).toBe(3);
+    });
+
+    it('swaps inverted times and clamps times to the video', () => {
+        const { cues, report } = validateCues([cueOf(word('back', 2, 1), word('late', 9.5, 12))], 10);
+        expect(cues[0].words).toEqual([word('back', 1, 2), word('late', 9.5, 10)]);
+        expect(report.invertedFixed).toBe(1);
+        expect(report.clampedToDuration).toBe(1);
+    });
+
+    it('puts cues and words back in order', () => {
+        const { cues, report } = validateCues([cueOf(word('c', 2, 2.5)), cueOf(word('b', 1.5, 2), word('a', 1, 1.5))], 10);
+        expect(texts(cues)).toEqual(['a b', 'c']);
+        expect(report.reordered).toBeGreaterThan(0);
+    });
+
+    it('separates overlapping words, lengthens zero-length words and closes short gaps', () => {
+        const { cues, report } = validateCues([cueOf(word('one', 0, 1), word('two', 0.8, 0.8), word('three', 1.1, 1.5))], 10);
+        const [one, two, three] = cues[0].words;
+        expect(one.endTime).toBeCloseTo(0.8);
+        expect(two.endTime).toBeCloseTo(1.1);
+        expect(three.startTime).toBe(1.1);
+        expect(report.overlapsFixed).toBe(1);
+        expect(report.zeroDurationFixed).toBe(1);
+        expect(report.gapsFilled).toBe(1);
+        expect(cues[0].endTime).toBe(1.5);
+    });
+
+    it('keeps gaps between cues and long pauses inside a cue', () => {
+        const { cues } = validateCues([cueOf(word('a', 0, 0.5), word('b', 2, 2.5)), cueOf(word('c', 2.6, 3))], 10);
+        expect(cues[0].words[0].endTime).toBe(0.5);
+        expect(cues[0].words[1].endTime).toBe(2.5);
+    });
+
+    it('re-inserts a dropped phrase into the silence between adjacent matched words', () => {
+        const { cues, report } = validateCues([cueOf(word('hello', 0, 0.5), word('world', 2, 2.5))], 10, 'hello big wide world');
+        expect(texts(cues)).toEqual(['hello big wide world']);
+        const inserted = cues[0].words.slice(1, 3);
+        expect(inserted[0].startTime).toBe(0.5);
+        expect(inserted[1].endTime).toBeLessThanOrEqual(2);
+        expect(report.insertedWords).toBe(2);
+        expect(report.coverage).toBe(0.5);
+    });
+
+    it('only lists words it cannot place, such as numbers written as digits or words at the ends', () => {
+        const { cues, report } = validateCues([cueOf(word('I', 0, 0.2), word('have', 0.3, 0.5), word('5', 0.6, 0.8), word('cats', 2, 2.5))], 10,
+            'so I have five cats today');
+        expect(texts(cues)).toEqual(['I have 5 cats']);
+        expect(report.missingPhrases).toEqual(['so', 'five', 'today']);
+        expect(report.insertedWords).toBe(0);
+    });
+
+    it('does not re-insert a phrase where there is no silence to hold it', () => {
+        const { cues, report } = validateCues([cueOf(word('well', 0, 0.5), word('known', 0.5, 1))], 10, 'well very known');
+        expect(texts(cues)).toEqual(['well known']);
+        expect(report.missingPhrases).toEqual(['very']);
+    });
+
+    it('spreads the transcription over the video when no cue is usable', () => {
+        const { cues, report } = validateCues([], 4, 'just these words');
+        expect(texts(cues)).toEqual(['just these words']);
+        expect(cues[0].startTime).toBe(0);
+        expect(cues[0].endTime).toBe(4);
+        expect(report.coverage).toBe(0);
+    });
+});
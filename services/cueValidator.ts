@@ -0,0 +1,263 @@
+import { CueValidationReport, GeneratedCue, WordCue } from '../types';
+import { distributeWordTimes } from './subtitleParser';
+
+// The shortest duration a word is given when the AI returns it with no length, in seconds
+const MIN_WORD_DURATION = 0.05;
+// Silences between words in the same cue shorter than this are closed, in seconds
+const MAX_FILLED_GAP = 0.3;
+// How far ahead in the cue words the coverage check looks for the next transcription word
+const ALIGNMENT_LOOKAHEAD = 8;
+// Re-inserted words never stretch further than this into a silence, in seconds per word
+const MAX_INSERTED_WORD_DURATION = 0.6;
+// A dropped phrase is only re-inserted into a silence at least this long, in seconds per word
+const MIN_SILENCE_PER_WORD = 0.15;
+// Transcription words that must match cue words in a row to realign beyond the lookahead
+const RESYNC_LENGTH = 3;
+
+export const normalizeToken = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Validates and repairs the cues returned by the AI. Malformed entries are dropped, times are clamped
+ * to the video, ordering and overlaps are fixed, short gaps are closed, and transcription words the
+ * AI dropped are re-inserted where they clearly fit. Returns the repaired cues together with a
+ * report of every fix.
+ */
+export const validateCues = (
+    rawCues: unknown,
+    duration: number,
+    transcription?: string
+): { cues: GeneratedCue[], report: CueValidationReport } => {
+    const report: CueValidationReport = {
+        droppedWords: 0,
+        invertedFixed: 0,
+        clampedToDuration: 0,
+        reordered: 0,
+        overlapsFixed: 0,
+        zeroDurationFixed: 0,
+        gapsFilled: 0,
+        insertedWords: 0,
+        coverage: 1,
+        missingPhrases: [],
+    };
+
+    if (!Array.isArray(rawCues)) {
+        throw new Error("The AI response was not a list of captions.");
+    }
+
+    const clamp = (time: number) => Math.min(duration, Math.max(0, time));
+
+    // 1. Shape, inverted and out-of-range times
+    let cues: GeneratedCue[] = [];
+    for (const rawCue of rawCues) {
+        const rawWords: unknown[] = Array.isArray(rawCue?.words) ? rawCue.words : [];
+        const words: WordCue[] = [];
+        for (const rawWord of rawWords) {
+            const candidate = rawWord as Partial<WordCue> | null;
+            const text = typeof candidate?.word === 'string' ? candidate.word.trim() : '';
+            if (!text || !isFiniteNumber(candidate?.startTime) || !isFiniteNumber(candidate?.endTime)) {
+                report.droppedWords++;
+                continue;
+            }
+            let { startTime, endTime } = candidate as WordCue;
+            if (endTime < startTime) {
+                [startTime, endTime] = [endTime, startTime];
+                report.invertedFixed++;
+            }
+            if (clamp(startTime) !== startTime || clamp(endTime) !== endTime) {
+                startTime = clamp(startTime);
+                endTime = clamp(endTime);
+                report.clampedToDuration++;
+            }
+            const speaker = typeof candidate?.speaker === 'string' && candidate.speaker ? candidate.speaker : undefined;
+            words.push(speaker ? { word: text, startTime, endTime, speaker } : { word: text, startTime, endTime });
+        }
+        if (words.length > 0) {
+            cues.push({ startTime: words[0].startTime, endTime: words[words.length - 1].endTime, words });
+        }
+    }
+
+    // 2. Chronological order of cues, and of words inside each cue
+    const byStart = (a: { startTime: number }, b: { startTime: number }) => a.startTime - b.startTime;
+    cues = cues.map(cue => {
+        const sorted = [...cue.words].sort(byStart);
+        report.reordered += sorted.filter((w, i) => w !== cue.words[i]).length;
+        return { ...cue, words: sorted };
+    });
+    const sortedCues = [...cues].sort((a, b) => a.words[0].startTime - b.words[0].startTime);
+    report.reordered += sortedCues.filter((c, i) => c !== cues[i]).length;
+    cues = sortedCues;
+
+    // 3. Overlaps, zero-length words and short gaps, across cue boundaries
+    const allWords = cues.flatMap(c => c.words);
+    const lastWordOfCue = new Set(cues.map(c => c.words[c.words.length - 1]));
+    for (let i = 0; i < allWords.length; i++) {
+        const word = allWords[i];
+        const previous = allWords[i - 1];
+        const next = allWords[i + 1];
+
+        if (previous && word.startTime < previous.endTime) {
+            if (word.startTime - previous.startTime >= MIN_WORD_DURATION) {
+                // Words are sorted by start, so trimming the previous word never cascades backwards
+                previous.endTime = word.startTime;
+            } else {
+                // Both words start together, so give the previous one a minimum length first
+                previous.endTime = previous.startTime + MIN_WORD_DURATION;
+                word.startTime = previous.endTime;
+                word.endTime = Math.max(word.endTime, word.startTime);
+            }
+            report.overlapsFixed++;
+        }
+        if (word.endTime - word.startTime < 1e-3) {
+            const limit = next ? Math.max(word.startTime, next.startTime) : duration;
+            word.endTime = Math.min(limit, word.startTime + MIN_WORD_DURATION);
+            if (word.endTime - word.startTime < 1e-3 && previous) {
+                // No room after the word, so borrow from the previous one instead
+                word.startTime = Math.max(previous.startTime, word.startTime - MIN_WORD_DURATION);
+                previous.endTime = Math.min(previous.endTime, word.startTime);
+            }
+            report.zeroDurationFixed++;
+        }
+        if (next && !lastWordOfCue.has(word)) {
+            const gap = next.startTime - word.endTime;
+            if (gap > 1e-3 && gap <= MAX_FILLED_GAP) {
+                word.endTime = next.startTime;
+                report.gapsFilled++;
+            }
+        }
+    }
+
+    // 4. Coverage against the transcription, re-inserting dropped words
+    if (transcription) {
+        cues = restoreMissingWords(cues, transcription, duration, report);
+    }
+
+    cues = cues.map(cue => ({
+        ...cue,
+        startTime: cue.words[0].startTime,
+        endTime: cue.words[cue.words.length - 1].endTime,
+    }));
+
+    return { cues, report };
+};
+
+/**
+ * Aligns transcription words to cue words with a greedy lookahead match, then re-inserts a run of
+ * unmatched transcription words only where it is clearly a dropped phrase: between two cue words
+ * that are matched and adjacent, with enough silence between them to hold it. Any other run, such
+ * as a number the AI wrote as digits or a phrase at either end, is only listed as missing.
+ */
+const restoreMissingWords = (
+    cues: GeneratedCue[],
+    transcription: string,
+    duration: number,
+    report: CueValidationReport
+): GeneratedCue[] => {
+    const transcriptWords = transcription.split(/\s+/).filter(w => normalizeToken(w).length > 0);
+    const cueWords = cues.flatMap((cue, cueIndex) => cue.words.map((word, wordIndex) => ({ word, cueIndex, wordIndex })));
+    if (transcriptWords.length === 0) return cues;
+    if (cueWords.length === 0) {
+        // Nothing usable came back, so fall back to spreading the transcription over the video
+        report.coverage = 0;
+        report.insertedWords = transcriptWords.length;
+        return [{ startTime: 0, endTime: duration, words: distributeWordTimes(transcriptWords, 0, duration) }];
+    }
+
+    const transcriptTokens = transcriptWords.map(normalizeToken);
+    const cueTokens = cueWords.map(c => normalizeToken(c.word.word));
+    // Where a few transcription words in a row match cue words, so alignment can recover after
+    // the AI added more words than the lookahead spans
+    const resync = (i: number, from: number) => {
+        if (i + RESYNC_LENGTH > transcriptTokens.length) return -1;
+        for (let k = from; k + RESYNC_LENGTH <= cueTokens.length; k++) {
+            let n = 0;
+            while (n < RESYNC_LENGTH && cueTokens[k + n] === transcriptTokens[i + n]) n++;
+            if (n === RESYNC_LENGTH) return k;
+        }
+        return -1;
+    };
+
+    // Unmatched runs, each with the flat indices of the matched cue words around it (-1 = none)
+    const runs: { words: string[], before: number, after: number }[] = [];
+    let run: string[] = [];
+    let matched = 0;
+    let cursor = 0;
+    transcriptTokens.forEach((token, i) => {
+        let found = cueTokens.slice(cursor, cursor + ALIGNMENT_LOOKAHEAD).indexOf(token);
+        found = found >= 0 ? cursor + found : resync(i, cursor + ALIGNMENT_LOOKAHEAD);
+        if (found < 0) {
+            run.push(transcriptWords[i]);
+            return;
+        }
+        if (run.length > 0) {
+            runs.push({ words: run, before: cursor - 1, after: found });
+            run = [];
+        }
+        matched++;
+        cursor = found + 1;
+    });
+    if (run.length > 0) runs.push({ words: run, before: cursor - 1, after: -1 });
+
+    report.coverage = matched / transcriptWords.length;
+    if (runs.length === 0) return cues;
+
+    const result = cues.map(cue => ({ ...cue, words: [...cue.words] }));
+    // Insert from the end so earlier cue and word indices stay valid
+    for (const { words, before: beforeIndex, after: afterIndex } of [...runs].reverse()) {
+        const before = cueWords[beforeIndex];
+        const after = cueWords[afterIndex];
+        const adjacent = beforeIndex >= 0 && afterIndex === beforeIndex + 1;
+        const gapStart = before?.word.endTime ?? 0;
+        const gapEnd = after?.word.startTime ?? 0;
+        if (!adjacent || gapEnd - gapStart < MIN_SILENCE_PER_WORD * words.length) {
+            report.missingPhrases.unshift(words.join(' '));
+            continue;
+        }
+        report.insertedWords += words.length;
+        const inserted = distributeWordTimes(words, gapStart, Math.min(gapEnd, gapStart + words.length * MAX_INSERTED_WORD_DURATION));
+        result[before.cueIndex].words.splice(before.wordIndex + 1, 0, ...inserted);
+    }
+    return result;
+};
+
+/**
+ * Summarizes a validation report as a list of human-readable fixes. Empty when nothing was changed.
+ */
+export const describeValidationReport = (report: CueValidationReport): string[] => {
+    const lines: string[] = [];
+    const add = (count: number, message: string) => {
+        if (count > 0) lines.push(`${count} ${message}`);
+    };
+    add(report.droppedWords, 'malformed word(s) dropped');
+    add(report.invertedFixed, 'word(s) with end before start swapped');
+    add(report.clampedToDuration, 'word(s) clamped to the video duration');
+    add(report.reordered, 'cue(s)/word(s) put back in order');
+    add(report.overlapsFixed, 'overlapping word(s) separated');
+    add(report.zeroDurationFixed, 'zero-length word(s) lengthened');
+    add(report.gapsFilled, 'short gap(s) between words closed');
+    add(report.insertedWords, 'missing transcription word(s) re-inserted');
+    return lines;
+};
+
+/**
+ * Combines the reports of several independently validated parts (e.g. audio chunks).
+ * Coverage is averaged, weighted by how many transcription words each part had.
+ */
+export const mergeValidationReports = (parts: { report: CueValidationReport, wordCount: number }[]): CueValidationReport => {
+    const totalWords = parts.reduce((sum, p) => sum + p.wordCount, 0);
+    const sum = (key: keyof Omit<CueValidationReport, 'coverage' | 'missingPhrases'>) =>
+        parts.reduce((total, p) => total + p.report[key], 0);
+    return {
+        droppedWords: sum('droppedWords'),
+        invertedFixed: sum('invertedFixed'),
+        clampedToDuration: sum('clampedToDuration'),
+        reordered: sum('reordered'),
+        overlapsFixed: sum('overlapsFixed'),
+        zeroDurationFixed: sum('zeroDurationFixed'),
+        gapsFilled: sum('gapsFilled'),
+        insertedWords: sum('insertedWords'),
+        coverage: totalWords > 0 ? parts.reduce((total, p) => total + p.report.coverage * p.wordCount, 0) / totalWords : 1,
+        missingPhrases: parts.flatMap(p => p.report.missingPhrases),
+    };
+};
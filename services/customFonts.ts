@@ -0,0 +1,98 @@
+import { blobToBase64 } from './audioEncoding';
+import { loadFontFiles, saveFontFiles } from './projectStore';
+
+// A font file uploaded by the user, kept as a data URL so it can be stored and exported as text.
+// Only the family names are kept in localStorage; the files are stored in IndexedDB.
+export interface CustomFont {
+    family: string;
+    dataUrl: string;
+}
+
+const STORAGE_KEY = 'auto-captioner.fonts';
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+const FONT_MIME_TYPES: Record<string, string> = {
+    ttf: 'font/ttf',
+    otf: 'font/otf',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+};
+
+/**
+ * The CSS font-family value for a custom font, as stored in SubtitleStyle.fontFamily.
+ */
+export const customFontFamily = (font: CustomFont) => `'${font.family}', sans-serif`;
+
+// Quotes and backslashes would break out of the quoted CSS font-family value
+const cleanFontFamily = (family: string) => family.replace(/['"\\]/g, '').trim();
+
+/**
+ * Keeps the fonts in stored or imported data that have a family name and a font data URL.
+ */
+export const readCustomFonts = (data: unknown): CustomFont[] => {
+    if (!Array.isArray(data)) return [];
+    return data.flatMap((item: unknown) => {
+        const font = (item && typeof item === 'object' ? item : {}) as Partial<Record<keyof CustomFont, unknown>>;
+        const family = typeof font.family === 'string' ? cleanFontFamily(font.family) : '';
+        return family && typeof font.dataUrl === 'string' && /^data:font\//.test(font.dataUrl)
+            ? [{ family, dataUrl: font.dataUrl }]
+            : [];
+    });
+};
+
+export const fontFromFile = async (file: File): Promise<CustomFont> => {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const mimeType = FONT_MIME_TYPES[extension];
+    if (!mimeType) {
+        throw new Error('Upload a TTF, OTF, WOFF or WOFF2 font file.');
+    }
+    const family = cleanFontFamily(file.name.replace(/\.[^/.]+$/, '')) || 'Custom font';
+    return { family, dataUrl: `data:${mimeType};base64,${await blobToBase64(file)}` };
+};
+
+/**
+ * Adds the font to the document, so both the preview and the canvas renderers can draw with it.
+ * Resolves once the font is loaded; a font that fails to load is rejected.
+ */
+export const registerCustomFont = async (font: CustomFont): Promise<void> => {
+    const face = new FontFace(font.family, `url(${font.dataUrl})`);
+    await face.load();
+    document.fonts.add(face);
+};
+
+/**
+ * Stores the font files in IndexedDB and their names in localStorage. Throws when the fonts do not
+ * fit in the browser's storage quota.
+ */
+export const saveCustomFonts = async (fonts: CustomFont[]): Promise<void> => {
+    await saveFontFiles(fonts);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(fonts.map(font => ({ family: font.family }))));
+};
+
+/**
+ * Reads the stored fonts. Fonts saved with their data in localStorage, as earlier versions did,
+ * are moved to IndexedDB.
+ */
+export const loadCustomFonts = async (): Promise<CustomFont[]> => {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(stored)) return [];
+    const files = await loadFontFiles();
+    const fonts = readCustomFonts(stored.map((item: unknown) => {
+        const family = (item as Partial<CustomFont> | null)?.family;
+        return typeof family === 'string' && files.has(family) ? { family, dataUrl: files.get(family) } : item;
+    }));
+    if (stored.some(item => typeof item?.dataUrl === 'string')) await saveCustomFonts(fonts);
+    return fonts;
+};
+
+// Adds fonts, replacing any with the same family name
+export const mergeCustomFonts = (fonts: CustomFont[], added: CustomFont[]): CustomFont[] => [
+    ...fonts.filter(font => !added.some(a => a.family === font.family)),
+    ...added,
+];
@@ -0,0 +1,109 @@
+export type VideoExportFormat = 'mp4' | 'webm';
+
+export type ExportQuality = 'low' | 'medium' | 'high' | 'custom';
+
+export interface ExportSettings {
+    format: VideoExportFormat;
+    quality: ExportQuality;
+    bitrateKbps: number; // only used with the custom quality
+}
+
+export const VIDEO_EXPORT_FORMATS: { value: VideoExportFormat, label: string, extension: string, mimeType: string }[] = [
+    { value: 'mp4', label: 'MP4 (H.264 + AAC)', extension: 'mp4', mimeType: 'video/mp4' },
+    { value: 'webm', label: 'WebM (VP9 + Opus)', extension: 'webm', mimeType: 'video/webm' },
+];
+
+// Bits per pixel per frame; scales the bitrate with resolution and frame rate
+export const EXPORT_QUALITIES: { value: ExportQuality, label: string, bitsPerPixel: number }[] = [
+    { value: 'low', label: 'Small file', bitsPerPixel: 0.05 },
+    { value: 'medium', label: 'Balanced', bitsPerPixel: 0.1 },
+    { value: 'high', label: 'High quality', bitsPerPixel: 0.2 },
+    { value: 'custom', label: 'Custom bitrate', bitsPerPixel: 0 },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    format: 'mp4',
+    quality: 'medium',
+    bitrateKbps: 8000,
+};
+
+const MIN_VIDEO_BITRATE = 200_000;
+const MAX_VIDEO_BITRATE = 50_000_000;
+
+export const AUDIO_BITRATE = 128_000;
+
+export const getExportFormat = (format: VideoExportFormat) =>
+    VIDEO_EXPORT_FORMATS.find(f => f.value === format) ?? VIDEO_EXPORT_FORMATS[0];
+
+/**
+ * Video bitrate in bits per second for the chosen quality at the given size and frame rate.
+ */
+export const getVideoBitrate = (settings: ExportSettings, width: number, height: number, frameRate: number): number => {
+    const bitrate = settings.quality === 'custom'
+        ? settings.bitrateKbps * 1000
+        : width * height * frameRate * (EXPORT_QUALITIES.find(q => q.value === settings.quality)?.bitsPerPixel ?? 0.1);
+    return Math.round(Math.min(MAX_VIDEO_BITRATE, Math.max(MIN_VIDEO_BITRATE, bitrate)));
+};
+
+// ffmpeg arguments for the chosen format, shared by ffmpeg.wasm in the browser and the ffmpeg binary
+export const videoCodecArgs = (settings: ExportSettings, videoBitrate: number): string[] =>
+    settings.format === 'mp4'
+        ? ['-c:v', 'libx264', '-preset', 'veryfast', '-b:v', `${videoBitrate}`, '-pix_fmt', 'yuv420p']
+        : ['-c:v', 'libvpx-vp9', '-b:v', `${videoBitrate}`, '-deadline', 'realtime', '-cpu-used', '8'];
+
+export const audioCodecArgs = (settings: ExportSettings): string[] =>
+    settings.format === 'mp4'
+        ? ['-c:a', 'aac', '-b:a', `${AUDIO_BITRATE}`]
+        : ['-c:a', 'libopus', '-b:a', `${AUDIO_BITRATE}`];
+
+export const containerArgs = (settings: ExportSettings): string[] =>
+    settings.format === 'mp4' ? ['-movflags', '+faststart'] : [];
+
+/**
+ * Builds an output file name from the source video name, e.g. `clip.mov` → `clip_captioned.mp4`.
+ */
+export const getOutputFilename = (sourceName: string, suffix: string, extension: string) =>
+    `${sourceName.replace(/\.[^/.]+$/, "")}_${suffix}.${extension}`;
+
+export type OverlayFormat = 'webm-alpha' | 'png-sequence' | 'prores-4444' | 'green-screen';
+
+export interface OverlaySettings {
+    format: OverlayFormat;
+    keyColor: string; // background color of the green-screen mode
+}
+
+// A null extension means the overlay uses the container chosen for video exports
+export const OVERLAY_FORMATS: { value: OverlayFormat, label: string, extension: string | null, playable: boolean }[] = [
+    { value: 'webm-alpha', label: 'Transparent WebM (VP9 alpha)', extension: 'webm', playable: true },
+    { value: 'png-sequence', label: 'Transparent PNG sequence (ZIP)', extension: 'zip', playable: false },
+    { value: 'prores-4444', label: 'ProRes 4444 MOV (short clips)', extension: 'mov', playable: false },
+    { value: 'green-screen', label: 'Solid key color', extension: null, playable: true },
+];
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+    format: 'webm-alpha',
+    keyColor: '#00FF00',
+};
+
+export const getOverlayFormat = (format: OverlayFormat) =>
+    OVERLAY_FORMATS.find(f => f.value === format) ?? OVERLAY_FORMATS[0];
+
+export const getOverlayExtension = (overlay: OverlaySettings, settings: ExportSettings) =>
+    getOverlayFormat(overlay.format).extension ?? getExportFormat(settings.format).extension;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+    const value = parseInt(hex.replace('#', '').slice(0, 6).padEnd(6, '0'), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Distance in RGB space below which a keyer would remove caption pixels along with the background
+const KEY_COLOR_TOLERANCE = 120;
+
+/**
+ * Whether a caption color is close enough to the key color to be keyed out with it.
+ */
+export const isNearKeyColor = (color: string, keyColor: string) => {
+    const [r1, g1, b1] = hexToRgb(color);
+    const [r2, g2, b2] = hexToRgb(keyColor);
+    return Math.hypot(r1 - r2, g1 - g2, b1 - b2) < KEY_COLOR_TOLERANCE;
+};
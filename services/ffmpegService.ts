@@ -0,0 +1,208 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { audioCodecArgs, containerArgs, ExportSettings, getExportFormat, videoCodecArgs } from './exportFormats';
+import { createAbortError, isAbortError, throwIfAborted } from './retry';
+
+// Single-threaded core, so the page does not need cross-origin isolation for SharedArrayBuffer
+const CORE_BASE_URL = 'https://unpkg.com/@ffmpeg/core@0.12.10/dist/esm';
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+// Settles when the last queued command has finished. The instance has one file system and one
+// progress event, so commands run one at a time.
+let ffmpegQueue: Promise<void> = Promise.resolve();
+let queuedCommands = 0;
+
+/**
+ * Loads ffmpeg.wasm once and reuses it. The core is about 30 MB, so it is only fetched
+ * when a browser cannot produce the requested format with its own encoders.
+ */
+const loadFfmpeg = (setProgress: (message: string) => void): Promise<FFmpeg> => {
+    if (!ffmpegPromise) {
+        setProgress('Loading FFmpeg (first use only)...');
+        ffmpegPromise = (async () => {
+            const ffmpeg = new FFmpeg();
+            await ffmpeg.load({
+                coreURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.js`, 'text/javascript'),
+                wasmURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+            });
+            return ffmpeg;
+        })();
+        ffmpegPromise.catch(() => { ffmpegPromise = null; });
+    }
+    return ffmpegPromise;
+};
+
+export interface FfmpegInput {
+    name: string;
+    data: Blob;
+}
+
+// Resolves when `turn` settles, or rejects as soon as the signal aborts
+const waitForTurn = (turn: Promise<void>, signal?: AbortSignal): Promise<void> => {
+    throwIfAborted(signal);
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(createAbortError());
+        signal?.addEventListener('abort', onAbort, { once: true });
+        turn.then(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        });
+    });
+};
+
+/**
+ * Runs one ffmpeg command over in-memory files and returns the output file. Commands wait for
+ * the ones queued before them. Cancelling terminates the worker, which only ever runs the
+ * cancelled command; the next call loads a fresh instance.
+ */
+export const runFfmpeg = async (
+    inputs: FfmpegInput[],
+    args: string[],
+    outputName: string,
+    outputType: string,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const turn = ffmpegQueue;
+    let finish = () => {};
+    const finished = new Promise<void>(resolve => { finish = resolve; });
+    ffmpegQueue = turn.then(() => finished);
+    // Batch jobs encode side by side, so say why a job's progress stalls
+    if (queuedCommands > 0) setProgress('Waiting for FFmpeg to finish another video...');
+    queuedCommands++;
+    try {
+        await waitForTurn(turn, signal);
+        return await runFfmpegCommand(inputs, args, outputName, outputType, setProgress, signal);
+    } finally {
+        queuedCommands--;
+        finish();
+    }
+};
+
+const runFfmpegCommand = async (
+    inputs: FfmpegInput[],
+    args: string[],
+    outputName: string,
+    outputType: string,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    throwIfAborted(signal);
+    const ffmpeg = await loadFfmpeg(setProgress);
+    throwIfAborted(signal);
+
+    const onProgress = ({ progress }: { progress: number }) => {
+        setProgress(`Encoding with FFmpeg... ${Math.round(Math.min(1, Math.max(0, progress)) * 100)}%`);
+    };
+    const onAbort = () => {
+        ffmpeg.terminate();
+        ffmpegPromise = null;
+    };
+    ffmpeg.on('progress', onProgress);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        for (const input of inputs) {
+            await ffmpeg.writeFile(input.name, await fetchFile(input.data));
+        }
+        const exitCode = await ffmpeg.exec(args);
+        throwIfAborted(signal);
+        if (exitCode !== 0) {
+            throw new Error(`FFmpeg failed with exit code ${exitCode}.`);
+        }
+        const data = await ffmpeg.readFile(outputName);
+        if (typeof data === 'string') {
+            throw new Error('FFmpeg returned text instead of a video file.');
+        }
+        return new Blob([data], { type: outputType });
+    } catch (error) {
+        if (signal?.aborted || isAbortError(error)) throw createAbortError();
+        throw error;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (!signal?.aborted) {
+            ffmpeg.off('progress', onProgress);
+            // Files stay in the instance's memory until deleted, also after a failed run
+            await Promise.all([...inputs.map(i => i.name), outputName].map(name => ffmpeg.deleteFile(name).catch(() => undefined)));
+        }
+    }
+};
+
+/**
+ * Re-encodes a rendered video into the chosen container, codecs and bitrate.
+ */
+export const convertVideo = async (
+    video: Blob,
+    settings: ExportSettings,
+    videoBitrate: number,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const format = getExportFormat(settings.format);
+    const outputName = `output.${format.extension}`;
+    return runFfmpeg(
+        [{ name: 'input.webm', data: video }],
+        ['-i', 'input.webm', ...videoCodecArgs(settings, videoBitrate), ...audioCodecArgs(settings), ...containerArgs(settings), outputName],
+        outputName,
+        format.mimeType,
+        setProgress,
+        signal
+    );
+};
+
+/**
+ * Adds the source file's audio to a video-only render, keeping the video stream as it is.
+ * Used when the browser can encode the video but has no encoder for the container's audio codec.
+ */
+export const addAudioTrack = async (
+    video: Blob,
+    source: File,
+    settings: ExportSettings,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const format = getExportFormat(settings.format);
+    const videoName = `video.${format.extension}`;
+    const sourceName = `source${source.name.match(/\.[^/.]+$/)?.[0] ?? ''}`;
+    const outputName = `output.${format.extension}`;
+    return runFfmpeg(
+        [{ name: videoName, data: video }, { name: sourceName, data: source }],
+        [
+            '-i', videoName, '-i', sourceName,
+            '-map', '0:v:0', '-map', '1:a:0?', '-c:v', 'copy', ...audioCodecArgs(settings), '-shortest',
+            ...containerArgs(settings), outputName,
+        ],
+        outputName,
+        format.mimeType,
+        setProgress,
+        signal
+    );
+};
+
+export type ImageSequenceCodec = 'vp9-alpha' | 'prores-4444';
+
+/**
+ * Encodes numbered PNG frames into a video that keeps their alpha channel.
+ */
+export const encodeImageSequence = async (
+    frames: Blob[],
+    frameRate: number,
+    codec: ImageSequenceCodec,
+    videoBitrate: number,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const inputs = frames.map((data, i) => ({ name: `frame_${String(i).padStart(6, '0')}.png`, data }));
+    const outputName = codec === 'prores-4444' ? 'output.mov' : 'output.webm';
+    const codecArgs = codec === 'prores-4444'
+        ? ['-c:v', 'prores_ks', '-profile:v', '4444', '-pix_fmt', 'yuva444p10le', '-vendor', 'apl0']
+        : ['-c:v', 'libvpx-vp9', '-pix_fmt', 'yuva420p', '-b:v', `${videoBitrate}`, '-deadline', 'realtime', '-cpu-used', '8'];
+    return runFfmpeg(
+        inputs,
+        ['-framerate', `${frameRate}`, '-i', 'frame_%06d.png', ...codecArgs, outputName],
+        outputName,
+        codec === 'prores-4444' ? 'video/quicktime' : 'video/webm',
+        setProgress,
+        signal
+    );
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedCue } from '../types';
+import { applyWordMatches, buildSearchPattern, DEFAULT_FIND_REPLACE_OPTIONS, findWordMatches, FindReplaceOptions } from './findReplace';
+
+const cues: GeneratedCue[] = [
+    { startTime: 0, endTime: 1, words: [{ word: 'Anna', startTime: 0, endTime: 0.5 }, { word: 'met', startTime: 0.5, endTime: 1 }] },
+    { startTime: 1, endTime: 2, words: [{ word: 'Annabel,', startTime: 1, endTime: 1.5 }, { word: 'anna.', startTime: 1.5, endTime: 2 }] },
+];
+
+const search = (changes: Partial<FindReplaceOptions>) => findWordMatches(cues, { ...DEFAULT_FIND_REPLACE_OPTIONS, ...changes });
+
+describe('findWordMatches', () => {
+    it('finds nothing without a search', () => {
+        expect(search({ replace: 'x' })).toEqual([]);
+    });
+
+    it('matches inside words, ignoring case by default', () => {
+        expect(search({ find: 'anna', replace: 'Ana' })).toEqual([
+            { cueIndex: 0, wordIndex: 0, before: 'Anna', after: 'Ana' },
+            { cueIndex: 1, wordIndex: 0, before: 'Annabel,', after: 'Anabel,' },
+            { cueIndex: 1, wordIndex: 1, before: 'anna.', after: 'Ana.' },
+        ]);
+    });
+
+    it('respects case and whole words when asked', () => {
+        expect(search({ find: 'anna', replace: 'Ana', matchCase: true }).map(m => m.before)).toEqual(['anna.']);
+        expect(search({ find: 'anna', replace: 'Ana', wholeWord: true }).map(m => m.before)).toEqual(['Anna', 'anna.']);
+    });
+
+    it('uses regular expression groups in regex mode and inserts "$" literally otherwise', () => {
+        expect(search({ find: '^(A)nna$', replace: '$1nn', regex: true }).map(m => m.after)).toEqual(['Ann']);
+        expect(search({ find: 'met', replace: '$1' }).map(m => m.after)).toEqual(['$1']);
+    });
+
+    it('skips replacements that would leave a word empty or unchanged', () => {
+        expect(search({ find: 'met', replace: '' })).toEqual([]);
+        expect(search({ find: 'met', replace: 'met' })).toEqual([]);
+    });
+
+    it('rejects an invalid regular expression with the reason', () => {
+        expect(() => buildSearchPattern({ ...DEFAULT_FIND_REPLACE_OPTIONS, find: '(', regex: true })).toThrow('Invalid search pattern');
+    });
+});
+
+describe('applyWordMatches', () => {
+    it('changes only the text of the chosen words', () => {
+        const [first, , third] = search({ find: 'anna', replace: 'Ana' });
+        const result = applyWordMatches(cues, [first, third]);
+        expect(result[0].words[0]).toEqual({ word: 'Ana', startTime: 0, endTime: 0.5 });
+        expect(result[1].words.map(w => w.word)).toEqual(['Annabel,', 'Ana.']);
+        expect(result[0].words[1]).toBe(cues[0].words[1]);
+    });
+});
@@ -0,0 +1,76 @@
+import { GeneratedCue } from '../types';
+
+export interface FindReplaceOptions {
+    find: string;
+    replace: string;
+    regex: boolean; // `find` is a regular expression and `replace` may use $1-style groups
+    matchCase: boolean;
+    wholeWord: boolean;
+}
+
+// One word the search matches, with its text before and after the replacement
+export interface WordMatch {
+    cueIndex: number;
+    wordIndex: number;
+    before: string;
+    after: string;
+}
+
+export const DEFAULT_FIND_REPLACE_OPTIONS: FindReplaceOptions = {
+    find: '',
+    replace: '',
+    regex: false,
+    matchCase: false,
+    wholeWord: false,
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the search pattern. Throws for an invalid regular expression, with the reason in the message.
+ */
+export const buildSearchPattern = (options: FindReplaceOptions): RegExp => {
+    const source = options.regex ? options.find : escapeRegExp(options.find);
+    // Letters and digits of any script count as part of a word, so "Anna" does not match in "Annabel"
+    const pattern = options.wholeWord ? `(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])` : source;
+    const flags = `g${options.matchCase ? '' : 'i'}${options.wholeWord ? 'u' : ''}`;
+    try {
+        return new RegExp(pattern, flags);
+    } catch (error) {
+        throw new Error(`Invalid search pattern: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+/**
+ * Finds every word whose text the replacement would change. Each word is searched on its own,
+ * so a match never spans two words. Replacements that would leave a word empty are skipped,
+ * since removing words would change the timing.
+ */
+export const findWordMatches = (cues: GeneratedCue[], options: FindReplaceOptions): WordMatch[] => {
+    if (!options.find) return [];
+    const pattern = buildSearchPattern(options);
+    // Plain replacements are inserted as typed, so a "$" in them is not read as a group reference
+    const replacement = options.regex ? options.replace : options.replace.replace(/\$/g, '$$$$');
+    return cues.flatMap((cue, cueIndex) => cue.words.flatMap((word, wordIndex) => {
+        const after = word.word.replace(pattern, replacement).trim();
+        return after && after !== word.word ? [{ cueIndex, wordIndex, before: word.word, after }] : [];
+    }));
+};
+
+/**
+ * Sets the text of the matched words. Word and cue timings are left as they are.
+ */
+export const applyWordMatches = (cues: GeneratedCue[], matches: WordMatch[]): GeneratedCue[] => {
+    if (matches.length === 0) return cues;
+    return cues.map((cue, cueIndex) => {
+        const cueMatches = matches.filter(match => match.cueIndex === cueIndex);
+        if (cueMatches.length === 0) return cue;
+        return {
+            ...cue,
+            words: cue.words.map((word, wordIndex) => {
+                const match = cueMatches.find(m => m.wordIndex === wordIndex);
+                return match ? { ...word, word: match.after } : word;
+            }),
+        };
+    });
+};
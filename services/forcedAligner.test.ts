@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { PcmAudio } from '../types';
+import { alignTranscriptToAudio, countSyllables, detectSpeechSegments } from './forcedAligner';
+
+const SAMPLE_RATE = 16000;
+
+// A quiet recording with a loud tone during each of the given spans, in seconds
+const toneAudio = (duration: number, spans: [number, number][]): PcmAudio => {
+    const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+        const time = i / SAMPLE_RATE;
+        const loud = spans.some(([start, end]) => time >= start && time < end);
+        samples[i] = (loud ? 0.5 : 0.001) * Math.sin(2 * Math.PI * 220 * time);
+    }
+    return { sampleRate: SAMPLE_RATE, length: samples.length, duration, getChannelData: () => samples };
+};
+
+describe('detectSpeechSegments', () => {
+    it('finds the loud stretches of a recording', () => {
+        const segments = detectSpeechSegments(toneAudio(4, [[0.5, 1.5], [2.5, 3.5]]));
+        expect(segments).toHaveLength(2);
+        expect(segments[0].startTime).toBeCloseTo(0.5, 1);
+        expect(segments[0].endTime).toBeCloseTo(1.5, 1);
+        expect(segments[1].startTime).toBeCloseTo(2.5, 1);
+        expect(segments[1].endTime).toBeCloseTo(3.5, 1);
+    });
+
+    it('bridges pauses shorter than the minimum silence', () => {
+        const segments = detectSpeechSegments(toneAudio(3, [[0.5, 1], [1.05, 1.5]]));
+        expect(segments).toHaveLength(1);
+    });
+});
+
+describe('countSyllables', () => {
+    it('counts vowel groups in Latin words and characters in CJK words', () => {
+        expect(countSyllables('hello')).toBe(2);
+        expect(countSyllables('cat')).toBe(1);
+        expect(countSyllables('こんにちは')).toBe(5);
+    });
+});
+
+describe('alignTranscriptToAudio', () => {
+    it('places each sentence in its own stretch of speech', () => {
+        const cues = alignTranscriptToAudio('Hello there. Good morning.', toneAudio(4, [[0.5, 1.5], [2.5, 3.5]]));
+        expect(cues.map(cue => cue.words.map(w => w.word))).toEqual([['Hello', 'there.'], ['Good', 'morning.']]);
+        expect(cues[0].startTime).toBeCloseTo(0.5, 1);
+        expect(cues[0].endTime).toBeCloseTo(1.5, 1);
+        expect(cues[1].startTime).toBeCloseTo(2.5, 1);
+        expect(cues[1].endTime).toBeCloseTo(3.5, 1);
+    });
+
+    it('times words in order without overlaps', () => {
+        const cues = alignTranscriptToAudio('one two three four five six', toneAudio(3, [[0.2, 2.8]]));
+        const words = cues.flatMap(cue => cue.words);
+        expect(words).toHaveLength(6);
+        words.forEach((word, i) => {
+            expect(word.endTime).toBeGreaterThan(word.startTime);
+            if (i > 0) expect(word.startTime).toBeGreaterThanOrEqual(words[i - 1].endTime - 1e-9);
+        });
+    });
+
+    it('spreads the words over the whole recording when nothing sounds like speech', () => {
+        const cues = alignTranscriptToAudio('quiet words', toneAudio(2, []));
+        const words = cues.flatMap(cue => cue.words);
+        expect(words[0].startTime).toBe(0);
+        expect(words[words.length - 1].endTime).toBe(2);
+    });
+
+    it('returns no cues for an empty transcription', () => {
+        expect(alignTranscriptToAudio('  ', toneAudio(1, [[0, 1]]))).toEqual([]);
+    });
+});
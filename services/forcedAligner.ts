@@ -0,0 +1,222 @@
+import { GeneratedCue, PcmAudio, WordCue } from '../types';
+
+export interface AlignmentOptions {
+    frameMs: number; // analysis window length
+    hopMs: number; // step between analysis windows
+    minSilenceMs: number; // pauses shorter than this stay inside a speech segment
+    minSpeechMs: number; // bursts shorter than this are treated as noise
+    cueBreakMs: number; // pauses at least this long start a new cue
+}
+
+export const DEFAULT_ALIGNMENT_OPTIONS: AlignmentOptions = {
+    frameMs: 20,
+    hopMs: 10,
+    minSilenceMs: 180,
+    minSpeechMs: 80,
+    cueBreakMs: 700,
+};
+
+export interface SpeechSegment {
+    startTime: number;
+    endTime: number;
+}
+
+const percentile = (sorted: Float32Array, p: number) =>
+    sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+/**
+ * Finds the stretches of audio that contain speech using short-time energy with an adaptive threshold.
+ * The threshold sits between the noise floor and the loud end of the signal, so it works on quiet and
+ * loud recordings alike.
+ */
+export const detectSpeechSegments = (
+    audio: PcmAudio,
+    options: AlignmentOptions = DEFAULT_ALIGNMENT_OPTIONS
+): SpeechSegment[] => {
+    const data = audio.getChannelData(0);
+    const frameSize = Math.max(1, Math.round((options.frameMs / 1000) * audio.sampleRate));
+    const hopSize = Math.max(1, Math.round((options.hopMs / 1000) * audio.sampleRate));
+    const frameCount = Math.max(0, Math.floor((data.length - frameSize) / hopSize) + 1);
+    if (frameCount === 0) return [];
+
+    // 1. Energy per frame in dB
+    const energy = new Float32Array(frameCount);
+    for (let f = 0; f < frameCount; f++) {
+        let sum = 0;
+        const offset = f * hopSize;
+        for (let i = 0; i < frameSize; i++) {
+            const sample = data[offset + i];
+            sum += sample * sample;
+        }
+        energy[f] = 10 * Math.log10(sum / frameSize + 1e-10);
+    }
+
+    // 2. Adaptive threshold between the noise floor and the speech level
+    const sorted = Float32Array.from(energy).sort();
+    const noiseFloor = percentile(sorted, 0.1);
+    const speechLevel = percentile(sorted, 0.95);
+    const threshold = noiseFloor + Math.max(6, (speechLevel - noiseFloor) * 0.3);
+
+    // 3. Raw speech runs
+    const hopSeconds = hopSize / audio.sampleRate;
+    const frameSeconds = frameSize / audio.sampleRate;
+    const raw: SpeechSegment[] = [];
+    let runStart = -1;
+    for (let f = 0; f <= frameCount; f++) {
+        const isSpeech = f < frameCount && energy[f] > threshold;
+        if (isSpeech && runStart < 0) {
+            runStart = f;
+        } else if (!isSpeech && runStart >= 0) {
+            raw.push({ startTime: runStart * hopSeconds, endTime: (f - 1) * hopSeconds + frameSeconds });
+            runStart = -1;
+        }
+    }
+
+    // 4. Bridge short pauses, then drop bursts too short to be words
+    const merged: SpeechSegment[] = [];
+    for (const segment of raw) {
+        const last = merged[merged.length - 1];
+        if (last && (segment.startTime - last.endTime) * 1000 < options.minSilenceMs) {
+            last.endTime = segment.endTime;
+        } else {
+            merged.push({ ...segment });
+        }
+    }
+    return merged
+        .filter(s => (s.endTime - s.startTime) * 1000 >= options.minSpeechMs)
+        .map(s => ({ startTime: s.startTime, endTime: Math.min(audio.duration, s.endTime) }));
+};
+
+const LATIN_VOWELS = /[aeiouyàáâãäåæèéêëìíîïòóôõöøùúûüÿœ]+/g;
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+/**
+ * Estimates how many syllables a word takes to say. Used as the weight when spreading words over speech.
+ */
+export const countSyllables = (word: string): number => {
+    const lower = word.toLowerCase();
+    const cjk = lower.match(CJK);
+    if (cjk) return cjk.length;
+
+    const digits = lower.replace(/\D/g, '');
+    if (digits.length > 0 && digits.length === lower.replace(/[^\p{L}\p{N}]/gu, '').length) {
+        // Numbers are read out, and each digit is roughly one and a half syllables
+        return Math.max(1, Math.round(digits.length * 1.5));
+    }
+
+    const letters = lower.replace(/[^\p{L}]/gu, '');
+    if (letters.length === 0) return 1;
+    if (!/[a-zà-ÿœ]/.test(letters)) {
+        // Scripts without written vowels we can count, e.g. Arabic or Hebrew
+        return Math.max(1, Math.round(letters.length / 2.5));
+    }
+
+    let count = (letters.match(LATIN_VOWELS) ?? []).length;
+    // A trailing silent "e" ("make") does not add a syllable, but "-le" ("table") does
+    if (letters.length > 2 && letters.endsWith('e') && !letters.endsWith('le') && count > 1) {
+        count--;
+    }
+    return Math.max(1, count);
+};
+
+const endsClause = (word: string) => /[.,;:!?。！？、]["')\]]*$/.test(word);
+const endsSentence = (word: string) => /[.!?。！？]["')\]]*$/.test(word);
+
+/**
+ * Chooses which word boundary each pause between speech segments falls on. Pauses land where the
+ * cumulative syllable share best matches the share of speech time before the pause, with a preference
+ * for boundaries after punctuation. Boundaries are strictly increasing so every segment gets words.
+ */
+const assignWordsToSegments = (weights: number[], punctuated: boolean[], segments: SpeechSegment[]): number[] => {
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    const totalSpeech = segments.reduce((sum, s) => sum + (s.endTime - s.startTime), 0);
+
+    const cumulative: number[] = [0];
+    for (const weight of weights) cumulative.push(cumulative[cumulative.length - 1] + weight / totalWeight);
+
+    // boundaries[k] is the index of the first word of segment k
+    const boundaries = [0];
+    let speechBefore = 0;
+    for (let k = 1; k < segments.length; k++) {
+        speechBefore += segments[k - 1].endTime - segments[k - 1].startTime;
+        const target = speechBefore / totalSpeech;
+        const min = boundaries[k - 1] + 1;
+        // Leave at least one word for each remaining segment
+        const max = weights.length - (segments.length - k);
+        let best = min;
+        let bestCost = Infinity;
+        for (let w = min; w <= max; w++) {
+            const cost = Math.abs(cumulative[w] - target) - (punctuated[w - 1] ? 0.02 : 0);
+            if (cost < bestCost) {
+                bestCost = cost;
+                best = w;
+            }
+            if (cumulative[w] - target > 0.1) break;
+        }
+        boundaries.push(best);
+    }
+    return boundaries;
+};
+
+// Spreads words across a time span in proportion to their syllable weight
+const spreadBySyllables = (words: string[], weights: number[], startTime: number, endTime: number): WordCue[] => {
+    const total = weights.reduce((a, b) => a + b, 0);
+    let cursor = startTime;
+    return words.map((word, i) => {
+        const wordStart = cursor;
+        cursor = i === words.length - 1 ? endTime : cursor + (weights[i] / total) * (endTime - startTime);
+        return { word, startTime: wordStart, endTime: cursor };
+    });
+};
+
+/**
+ * Aligns a transcription to audio without any network calls. Speech is segmented by energy, the pauses
+ * between segments are matched to word boundaries, and words inside each segment are timed in proportion
+ * to their syllable count. Cues break at sentence ends and long pauses.
+ */
+export const alignTranscriptToAudio = (
+    transcription: string,
+    audio: PcmAudio,
+    options: AlignmentOptions = DEFAULT_ALIGNMENT_OPTIONS
+): GeneratedCue[] => {
+    const words = transcription.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    let segments = detectSpeechSegments(audio, options);
+    if (segments.length === 0) {
+        // Nothing sounded like speech, so spread the words over the whole recording
+        segments = [{ startTime: 0, endTime: audio.duration }];
+    }
+    // More pauses than words: keep only the longest segments, in time order
+    if (segments.length > words.length) {
+        segments = [...segments]
+            .sort((a, b) => (b.endTime - b.startTime) - (a.endTime - a.startTime))
+            .slice(0, words.length)
+            .sort((a, b) => a.startTime - b.startTime);
+    }
+
+    const weights = words.map(countSyllables);
+    const punctuated = words.map(endsClause);
+    const boundaries = assignWordsToSegments(weights, punctuated, segments);
+
+    const timed: WordCue[] = [];
+    segments.forEach((segment, k) => {
+        const from = boundaries[k];
+        const to = k + 1 < boundaries.length ? boundaries[k + 1] : words.length;
+        timed.push(...spreadBySyllables(words.slice(from, to), weights.slice(from, to), segment.startTime, segment.endTime));
+    });
+
+    // Group words into cues at sentence ends and long pauses
+    const cues: GeneratedCue[] = [];
+    let current: WordCue[] = [];
+    timed.forEach((word, i) => {
+        current.push(word);
+        const next = timed[i + 1];
+        const pause = next ? next.startTime - word.endTime : Infinity;
+        if (!next || endsSentence(word.word) || pause * 1000 >= options.cueBreakMs) {
+            cues.push({ startTime: current[0].startTime, endTime: word.endTime, words: current });
+            current = [];
+        }
+    });
+    return cues;
+};
@@ -1,81 +1,34 @@
 import { GoogleGenAI, Type } from '@google/genai';
-import { TranscriptionStatus, GeneratedCue, WordCue } from '../types';
+import { GeneratedCue, PcmAudio, TranscriptionProvider, TranscriptionProviderSettings, TranslationProvider } from '../types';
+import { encodeWav, blobToBase64 } from './audioEncoding';
+import { withRetry, isAbortError } from './retry';
+import { vocabularyHint } from './vocabulary';
+import { translationPrompt } from './captionTranslator';
 
-// Helper to write a string to a DataView
-function writeString(view: DataView, offset: number, str: string) {
-    for (let i = 0; i < str.length; i++) {
-        view.setUint8(offset + i, str.charCodeAt(i));
-    }
-}
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
 
-// Helper to convert a mono AudioBuffer to a Base64 encoded WAV string
-async function audioBufferToWavBase64(buffer: AudioBuffer): Promise<string> {
-    const sampleRate = buffer.sampleRate;
-    const numChannels = 1;
-    const bitDepth = 16;
-    
-    const pcmData = new Int16Array(buffer.length);
-    const channelData = buffer.getChannelData(0);
-    for (let i = 0; i < buffer.length; i++) {
-        // Clamp and convert to 16-bit PCM
-        pcmData[i] = Math.max(-1, Math.min(1, channelData[i])) * 32767;
-    }
+type GeminiSettings = Pick<TranscriptionProviderSettings, 'apiKey' | 'model'> & Partial<Pick<TranscriptionProviderSettings, 'detectSpeakers' | 'vocabulary'>>;
 
-    const wavHeader = new ArrayBuffer(44);
-    const view = new DataView(wavHeader);
-    const dataSize = pcmData.byteLength;
-
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + dataSize, true); // file length - 8
-    writeString(view, 8, 'WAVE');
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // Subchunk1Size for PCM
-    view.setUint16(20, 1, true); // AudioFormat 1 for PCM
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true); // byteRate
-    view.setUint16(32, numChannels * (bitDepth / 8), true); // blockAlign
-    view.setUint16(34, bitDepth, true);
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
-
-    const wavBlob = new Blob([view, pcmData], { type: 'audio/wav' });
-
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const base64String = (reader.result as string)?.split(',')[1];
-            if (!base64String) {
-                reject(new Error("Failed to convert audio to base64."));
-            } else {
-                resolve(base64String);
-            }
-        };
-        reader.onerror = (error) => reject(error);
-        reader.readAsDataURL(wavBlob);
-    });
-}
+const createClient = (settings: GeminiSettings) => {
+    if (!settings.apiKey) {
+        throw new Error("Gemini API key not found. Enter it in the AI provider settings.");
+    }
+    return new GoogleGenAI({ apiKey: settings.apiKey });
+};
 
 export const transcribeAudio = async (
-    audioBuffer: AudioBuffer,
-    setTranscriptionStatus: (status: TranscriptionStatus) => void,
-    setStatusMessage: (message: string) => void
+    audio: PcmAudio,
+    settings: GeminiSettings,
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
 ): Promise<string> => {
-    if (!process.env.API_KEY) {
-        const errorMsg = "API key not found. Please set the API_KEY environment variable.";
-        setStatusMessage(errorMsg);
-        setTranscriptionStatus(TranscriptionStatus.ERROR);
-        throw new Error(errorMsg);
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = createClient(settings);
 
     try {
         setStatusMessage("Preparing audio for AI transcription...");
-        setTranscriptionStatus(TranscriptionStatus.PREPARING);
-        const base64Audio = await audioBufferToWavBase64(audioBuffer);
+        const base64Audio = await blobToBase64(encodeWav(audio));
 
         setStatusMessage("Transcribing audio with AI...");
-        setTranscriptionStatus(TranscriptionStatus.TRANSCRIBING);
 
         const audioPart = {
             inlineData: {
@@ -83,17 +36,25 @@ export const transcribeAudio = async (
                 data: base64Audio,
             },
         };
-        const textPart = {
-            text: 'Transcribe this audio. Your response should contain only the transcribed text and nothing else.'
-        };
-
-        const response = await ai.models.generateContent({
-            // FIX: Use the recommended model 'gemini-2.5-flash' for text tasks.
-            model: 'gemini-2.5-flash',
+        const instructions = settings.detectSpeakers
+            ? 'Transcribe this audio and identify who is speaking. Start a new line at every change of speaker, '
+                + 'beginning with a label for the speaker: S1: for the first person to speak, S2: for the second, and so on, '
+                + 'using the same label whenever the same person speaks again. '
+                + 'Your response should contain only the labelled transcript and nothing else.'
+            : 'Transcribe this audio. Your response should contain only the transcribed text and nothing else.';
+        const hint = vocabularyHint(settings.vocabulary ?? []);
+        const textPart = { text: hint ? `${instructions}\n${hint}` : instructions };
+
+        const response = await withRetry(() => ai.models.generateContent({
+            model: settings.model || DEFAULT_GEMINI_MODEL,
             contents: { parts: [audioPart, textPart] },
+            config: { abortSignal: signal },
+        }), {
+            signal,
+            onRetry: (attempt, delayMs) => setStatusMessage(`Gemini is busy, retrying transcription in ${Math.round(delayMs / 1000)}s (attempt ${attempt})...`),
         });
         
-        const transcription = response.text.trim();
+        const transcription = (response.text ?? '').trim();
         if (!transcription) {
             throw new Error("Transcription result was empty. The video may not contain speech.");
         }
@@ -102,10 +63,10 @@ export const transcribeAudio = async (
         return transcription;
 
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Failed to transcribe audio:", error);
         const errorMessage = error instanceof Error ? error.message : "An unknown error occurred during transcription.";
         setStatusMessage(`Transcription failed: ${errorMessage}`);
-        setTranscriptionStatus(TranscriptionStatus.ERROR);
         throw error;
     }
 };
@@ -113,15 +74,17 @@ export const transcribeAudio = async (
 export const generateCaptionsFromTranscription = async (
     transcription: string,
     duration: number,
-    setStatusMessage: (message: string) => void
+    settings: GeminiSettings,
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
 ): Promise<GeneratedCue[]> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API key not found.");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = createClient(settings);
     
     setStatusMessage("Generating synchronized captions with AI...");
 
+    const hint = vocabularyHint(settings.vocabulary ?? []);
+    const vocabularyRule = hint ? `\n- ${hint} Correct any misspelling of them in the transcription.` : '';
+
     const prompt = `The following is a full transcription of a video that is ${duration.toFixed(2)} seconds long.
 Your task is to segment this transcription into synchronized subtitle cues with word-level timestamps.
 Provide the output as a valid JSON array of objects.
@@ -138,8 +101,7 @@ Rules:
 - The "endTime" of the last cue must be <= the video duration (${duration.toFixed(2)}).
 - Cues and words should not have overlapping times.
 - The word-level timestamps must be accurate.
-- The entire transcription must be covered.
-
+- The entire transcription must be covered.${vocabularyRule}
 Transcription:
 ---
 ${transcription}
@@ -147,11 +109,11 @@ ${transcription}
     `;
     
     try {
-        const response = await ai.models.generateContent({
-            // FIX: Use the recommended model 'gemini-2.5-flash' for text tasks.
-            model: 'gemini-2.5-flash',
+        const response = await withRetry(() => ai.models.generateContent({
+            model: settings.model || DEFAULT_GEMINI_MODEL,
             contents: prompt,
             config: {
+                abortSignal: signal,
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.ARRAY,
@@ -177,13 +139,71 @@ ${transcription}
                     },
                 },
             },
+        }), {
+            signal,
+            onRetry: (attempt, delayMs) => setStatusMessage(`Gemini is busy, retrying caption timing in ${Math.round(delayMs / 1000)}s (attempt ${attempt})...`),
         });
         
-        const jsonStr = response.text.trim();
+        const jsonStr = (response.text ?? '').trim();
         const cues = JSON.parse(jsonStr);
         return cues;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Failed to generate captions:", error);
         throw new Error("The AI failed to generate timed captions. The transcription might be empty or invalid.");
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Translates subtitle lines in one request. The lines are sent as a JSON array so the reply can be
+ * checked line for line against the input.
+ */
+export const translateTexts = async (
+    texts: string[],
+    targetLanguage: string,
+    settings: GeminiSettings,
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
+): Promise<string[]> => {
+    const ai = createClient(settings);
+
+    const prompt = translationPrompt(texts, targetLanguage,
+        `Return a JSON array of strings with exactly ${texts.length} items, one translation per line, in order.`);
+
+    const response = await withRetry(() => ai.models.generateContent({
+        model: settings.model || DEFAULT_GEMINI_MODEL,
+        contents: prompt,
+        config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+    }), {
+        signal,
+        onRetry: (attempt, delayMs) => setStatusMessage(`Gemini is busy, retrying translation in ${Math.round(delayMs / 1000)}s (attempt ${attempt})...`),
+    });
+
+    const translations: unknown = JSON.parse((response.text ?? '').trim() || '[]');
+    if (!Array.isArray(translations)) {
+        throw new Error("The AI returned an invalid translation.");
+    }
+    return translations.map(t => String(t ?? ''));
+};
+
+export const createGeminiTranslator = (settings: GeminiSettings): TranslationProvider => ({
+    label: `Gemini (${settings.model || DEFAULT_GEMINI_MODEL})`,
+    translate: (texts, targetLanguage, setStatusMessage, signal) =>
+        translateTexts(texts, targetLanguage, settings, setStatusMessage, signal),
+});
+
+/**
+ * Gemini transcribes first and then times the transcription in a second, text-only request.
+ */
+export const createGeminiProvider = (settings: GeminiSettings): TranscriptionProvider => ({
+    label: `Gemini (${settings.model || DEFAULT_GEMINI_MODEL})`,
+    transcribe: async (audio, setStatusMessage, signal) => ({
+        text: await transcribeAudio(audio, settings, setStatusMessage, signal),
+    }),
+    timeTranscription: (transcription, duration, setStatusMessage, signal) =>
+        generateCaptionsFromTranscription(transcription, duration, settings, setStatusMessage, signal),
+});
@@ -0,0 +1,669 @@
+import { createFile, DataStream, Endianness, MP4BoxBuffer, Sample, VisualSampleEntry } from 'mp4box';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Zip, ZipPassThrough } from 'fflate';
+import { CaptionLayer } from '../types';
+import { drawCaptionLayers, drawOutputFrame } from './videoRenderer';
+import { getOutputSize, ReframeSettings } from './reframe';
+import { AUDIO_BITRATE, ExportSettings, getExportFormat, getVideoBitrate, OverlayFormat, VideoExportFormat } from './exportFormats';
+import { addAudioTrack, convertVideo, encodeImageSequence } from './ffmpegService';
+import { createAbortError, throwIfAborted } from './retry';
+
+// Frames waiting in the decoder or encoder before the render loop pauses to let them drain
+const MAX_QUEUE_SIZE = 8;
+// Seconds between forced keyframes, so the output stays seekable
+const KEYFRAME_INTERVAL = 2;
+// Sample rate and channel count the output audio track is encoded at
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+// Audio frames per AudioData chunk handed to the encoder (100 ms)
+const AUDIO_CHUNK_FRAMES = 4800;
+// FFmpeg.wasm holds every PNG frame of an image sequence in its memory at once, next to the output.
+// Mostly transparent caption frames compress to about this many bytes per pixel.
+const IMAGE_SEQUENCE_MEMORY_BUDGET = 1024 * 1024 * 1024;
+const PNG_BYTES_PER_PIXEL = 0.05;
+// ZIP chunks collected before they are merged into a Blob
+const ZIP_PARTS_PER_BLOB = 256;
+
+interface DemuxedVideo {
+    config: VideoDecoderConfig;
+    samples: Sample[];
+    frameRate: number;
+    duration: number;
+    rotation: number; // clockwise degrees the track's matrix turns decoded frames for display: 0, 90, 180 or 270
+}
+
+/**
+ * Whether this browser has the WebCodecs encoder needed to generate frames offline.
+ */
+export const isOfflineEncodeSupported = () => typeof VideoEncoder !== 'undefined';
+
+/**
+ * Whether this browser can render offline. The demuxer only reads MP4/MOV input;
+ * other containers fall back to the real-time renderer.
+ */
+export const isOfflineRenderSupported = (videoFile: File) =>
+    typeof VideoDecoder !== 'undefined'
+    && isOfflineEncodeSupported()
+    && (/^video\/(mp4|quicktime|x-m4v)$/.test(videoFile.type) || /\.(mp4|m4v|mov)$/i.test(videoFile.name));
+
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Extracts the codec configuration record (avcC, hvcC, vpcC or av1C) the decoder needs as its description
+const getCodecDescription = (entry: VisualSampleEntry): Uint8Array | undefined => {
+    const box = entry.avcC ?? entry.hvcC ?? entry.vpcC ?? entry.av1C;
+    if (!box) return undefined;
+    const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+    (box as unknown as { write(stream: DataStream): void }).write(stream);
+    // Skip the 8-byte box header
+    return new Uint8Array(stream.buffer, 8);
+};
+
+// Phones store portrait video as landscape frames and set the track matrix to turn them upright.
+// Only quarter turns are used in practice; the matrix may be read as unsigned, so values are made signed first.
+const getTrackRotation = (matrix: ArrayLike<number>) => {
+    const degrees = Math.round(Math.atan2(matrix[1] | 0, matrix[0] | 0) * 180 / Math.PI / 90) * 90;
+    return (degrees + 360) % 360;
+};
+
+/**
+ * Reads every video sample of an MP4/MOV file together with the decoder configuration.
+ */
+const demuxVideo = async (videoFile: File): Promise<DemuxedVideo> => {
+    const buffer = await videoFile.arrayBuffer();
+    return new Promise((resolve, reject) => {
+        const file = createFile();
+        const samples: Sample[] = [];
+        let result: Omit<DemuxedVideo, 'samples'> | null = null;
+        let trackId = -1;
+        let expected = 0;
+
+        file.onError = (module, message) => reject(new Error(`Could not read the video container (${module}: ${message}).`));
+        file.onReady = (info) => {
+            const track = info.videoTracks[0];
+            if (!track) {
+                reject(new Error('The file has no video track.'));
+                return;
+            }
+            const entry = file.getTrackById(track.id).mdia.minf.stbl.stsd.entries[0] as VisualSampleEntry;
+            const duration = track.duration / track.timescale;
+            trackId = track.id;
+            expected = track.nb_samples;
+            result = {
+                config: {
+                    codec: track.codec.startsWith('vp08') ? 'vp8' : track.codec,
+                    codedWidth: track.video?.width ?? track.track_width,
+                    codedHeight: track.video?.height ?? track.track_height,
+                    description: getCodecDescription(entry),
+                },
+                frameRate: duration > 0 ? track.nb_samples / duration : 30,
+                duration,
+                rotation: getTrackRotation(track.matrix),
+            };
+            file.setExtractionOptions(track.id, undefined, { nbSamples: Infinity });
+            file.start();
+        };
+        file.onSamples = (id, _user, newSamples) => {
+            if (id !== trackId) return;
+            samples.push(...newSamples);
+            if (samples.length >= expected && result) {
+                resolve({ ...result, samples });
+            }
+        };
+
+        file.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, 0), true);
+        file.flush();
+        if (!result) {
+            reject(new Error('Could not find the movie header in the video file.'));
+        } else if (samples.length < expected) {
+            resolve({ ...result, samples });
+        }
+    });
+};
+
+/**
+ * Reads the frame rate of an MP4/MOV file, or null when it cannot be determined.
+ */
+export const probeFrameRate = async (videoFile: File): Promise<number | null> => {
+    if (!isOfflineRenderSupported(videoFile)) return null;
+    try {
+        return (await demuxVideo(videoFile)).frameRate;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * An encoder configuration paired with the muxer that writes its chunks into a file.
+ */
+interface EncodedOutput {
+    width: number;
+    height: number;
+    videoConfig: VideoEncoderConfig;
+    audioConfig: AudioEncoderConfig | null;
+    addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+    addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+    finalize: () => Blob;
+}
+
+// H.264 levels by the macroblocks per second they allow; encoders reject streams above their level
+const AVC_LEVELS: { code: string, maxMacroblocksPerSecond: number, maxFrameMacroblocks: number }[] = [
+    { code: '28', maxMacroblocksPerSecond: 245_760, maxFrameMacroblocks: 8_192 }, // 4.0
+    { code: '2a', maxMacroblocksPerSecond: 522_240, maxFrameMacroblocks: 8_704 }, // 4.2
+    { code: '33', maxMacroblocksPerSecond: 983_040, maxFrameMacroblocks: 36_864 }, // 5.1
+    { code: '34', maxMacroblocksPerSecond: 2_073_600, maxFrameMacroblocks: 36_864 }, // 5.2
+];
+
+// H.264 High profile codec string at the lowest level that fits the size and frame rate
+const getAvcCodec = (width: number, height: number, frameRate: number) => {
+    const frameMacroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+    const level = AVC_LEVELS.find(l =>
+        frameMacroblocks <= l.maxFrameMacroblocks && frameMacroblocks * frameRate <= l.maxMacroblocksPerSecond
+    ) ?? AVC_LEVELS[AVC_LEVELS.length - 1];
+    return `avc1.6400${level.code}`;
+};
+
+const createOutput = (
+    format: VideoExportFormat,
+    videoDimensions: { width: number, height: number },
+    frameRate: number,
+    videoBitrate: number,
+    withAudio: boolean,
+    alpha = false
+): EncodedOutput => {
+    // 4:2:0 chroma subsampling needs even dimensions
+    const width = videoDimensions.width - (videoDimensions.width % 2);
+    const height = videoDimensions.height - (videoDimensions.height % 2);
+    const audioOptions = { sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS };
+
+    if (format === 'mp4') {
+        const muxer = new Mp4Muxer({
+            target: new Mp4Target(),
+            video: { codec: 'avc', width, height, frameRate },
+            audio: withAudio ? { codec: 'aac', ...audioOptions } : undefined,
+            fastStart: 'in-memory',
+            firstTimestampBehavior: 'offset',
+        });
+        return {
+            width,
+            height,
+            videoConfig: { codec: getAvcCodec(width, height, frameRate), width, height, bitrate: videoBitrate, framerate: frameRate, avc: { format: 'avc' } },
+            audioConfig: withAudio ? { codec: 'mp4a.40.2', bitrate: AUDIO_BITRATE, ...audioOptions } : null,
+            addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+            addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+            finalize: () => {
+                muxer.finalize();
+                return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+            },
+        };
+    }
+
+    const muxer = new WebmMuxer({
+        target: new WebmTarget(),
+        video: { codec: 'V_VP9', width, height, frameRate, alpha },
+        audio: withAudio ? { codec: 'A_OPUS', ...audioOptions } : undefined,
+        firstTimestampBehavior: 'offset',
+    });
+    return {
+        width,
+        height,
+        videoConfig: { codec: 'vp09.00.10.08', width, height, bitrate: videoBitrate, framerate: frameRate, alpha: alpha ? 'keep' : 'discard' },
+        audioConfig: withAudio ? { codec: 'opus', bitrate: AUDIO_BITRATE, ...audioOptions } : null,
+        addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        finalize: () => {
+            muxer.finalize();
+            return new Blob([muxer.target.buffer], { type: 'video/webm' });
+        },
+    };
+};
+
+interface OutputPlan {
+    output: EncodedOutput;
+    transcode: boolean; // the browser cannot encode the chosen video codec, so FFmpeg converts a WebM render
+    addAudioLater: boolean; // the browser cannot encode the chosen audio codec, so FFmpeg adds the audio
+}
+
+/**
+ * Picks how to produce the chosen format: with the browser's own encoders when it has them,
+ * otherwise with the closest native output and an FFmpeg step afterwards.
+ */
+const planOutput = async (
+    settings: ExportSettings,
+    videoDimensions: { width: number, height: number },
+    frameRate: number,
+    videoBitrate: number,
+    withAudio: boolean
+): Promise<OutputPlan> => {
+    const preferred = createOutput(settings.format, videoDimensions, frameRate, videoBitrate, withAudio);
+    if (!(await VideoEncoder.isConfigSupported(preferred.videoConfig)).supported) {
+        if (settings.format === 'webm') {
+            throw new Error('This browser cannot encode VP9 video.');
+        }
+        return { output: createOutput('webm', videoDimensions, frameRate, videoBitrate, withAudio), transcode: true, addAudioLater: false };
+    }
+    if (preferred.audioConfig) {
+        const audioSupported = typeof AudioEncoder !== 'undefined'
+            && (await AudioEncoder.isConfigSupported(preferred.audioConfig)).supported;
+        if (!audioSupported) {
+            return { output: createOutput(settings.format, videoDimensions, frameRate, videoBitrate, false), transcode: false, addAudioLater: true };
+        }
+    }
+    return { output: preferred, transcode: false, addAudioLater: false };
+};
+
+/**
+ * Runs the FFmpeg step the plan calls for, if any.
+ */
+const completeOutput = async (
+    rendered: Blob,
+    plan: OutputPlan,
+    settings: ExportSettings,
+    videoBitrate: number,
+    source: File | null,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    if (plan.transcode) {
+        setProgress(`Converting to ${getExportFormat(settings.format).label}...`);
+        return convertVideo(rendered, settings, videoBitrate, setProgress, signal);
+    }
+    if (plan.addAudioLater && source) {
+        setProgress('Adding audio track...');
+        return addAudioTrack(rendered, source, settings, setProgress, signal);
+    }
+    return rendered;
+};
+
+/**
+ * Decodes the file's audio at the output sample rate, or returns null when it has no audio track.
+ */
+const decodeAudioForOutput = async (videoFile: File): Promise<AudioBuffer | null> => {
+    try {
+        const context = new OfflineAudioContext(AUDIO_CHANNELS, 1, AUDIO_SAMPLE_RATE);
+        return await context.decodeAudioData(await videoFile.arrayBuffer());
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Encodes a decoded audio buffer with the output's audio codec and hands the chunks to its muxer.
+ */
+const encodeAudio = async (audio: AudioBuffer, output: EncodedOutput, audioConfig: AudioEncoderConfig, signal?: AbortSignal) => {
+    let encoderError: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, meta) => output.addAudioChunk(chunk, meta),
+        error: (e) => { encoderError = e; },
+    });
+    encoder.configure(audioConfig);
+
+    const channels = Array.from({ length: AUDIO_CHANNELS }, (_, c) => audio.getChannelData(Math.min(c, audio.numberOfChannels - 1)));
+    for (let offset = 0; offset < audio.length; offset += AUDIO_CHUNK_FRAMES) {
+        throwIfAborted(signal);
+        if (encoderError) throw encoderError;
+        const frames = Math.min(AUDIO_CHUNK_FRAMES, audio.length - offset);
+        const planar = new Float32Array(frames * AUDIO_CHANNELS);
+        channels.forEach((data, c) => planar.set(data.subarray(offset, offset + frames), c * frames));
+        const audioData = new AudioData({
+            format: 'f32-planar',
+            sampleRate: AUDIO_SAMPLE_RATE,
+            numberOfFrames: frames,
+            numberOfChannels: AUDIO_CHANNELS,
+            timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1e6),
+            data: planar,
+        });
+        encoder.encode(audioData);
+        audioData.close();
+        if (encoder.encodeQueueSize > MAX_QUEUE_SIZE) await yieldToEventLoop();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (encoderError) throw encoderError;
+};
+
+const createCanvas = (width: number, height: number, alpha: boolean) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { alpha });
+    if (!ctx) throw new Error('Could not create canvas context.');
+    return { canvas, ctx };
+};
+
+/**
+ * Draws a decoded frame turned by the track's rotation, resizing the canvas to the upright frame.
+ */
+const drawUpright = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, frame: VideoFrame, rotation: number) => {
+    const quarterTurn = rotation % 180 !== 0;
+    const width = quarterTurn ? frame.displayHeight : frame.displayWidth;
+    const height = quarterTurn ? frame.displayWidth : frame.displayHeight;
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+    }
+    ctx.setTransform(1, 0, 0, 1, width / 2, height / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(frame, -frame.displayWidth / 2, -frame.displayHeight / 2);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+/**
+ * Renders a video with burned-in captions without playing it. Frames are decoded with VideoDecoder,
+ * captions are drawn at each frame's exact presentation time, and frames are re-encoded with
+ * VideoEncoder at the source frame rate. Runs as fast as the hardware allows.
+ *
+ * Resolves to null when this browser cannot decode the video's codec, such as HEVC or AV1 in some
+ * browsers, so the caller can fall back to the real-time renderer, which plays the file instead.
+ */
+export const renderVideoOffline = async (
+    videoFile: File,
+    layers: CaptionLayer[],
+    videoDimensions: { width: number, height: number },
+    reframe: ReframeSettings,
+    settings: ExportSettings,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<string | null> => {
+    setProgress('Reading video frames...');
+    const video = await demuxVideo(videoFile);
+    throwIfAborted(signal);
+
+    const support = await VideoDecoder.isConfigSupported(video.config);
+    if (!support.supported) return null;
+
+    const audio = await decodeAudioForOutput(videoFile);
+    const outputSize = getOutputSize(videoDimensions, reframe);
+    const videoBitrate = getVideoBitrate(settings, outputSize.width, outputSize.height, video.frameRate);
+    const plan = await planOutput(settings, outputSize, video.frameRate, videoBitrate, audio !== null);
+    const { output } = plan;
+    const { width, height } = output;
+    const { canvas, ctx } = createCanvas(width, height, false);
+    // Frames of rotated tracks are turned upright here first, matching the dimensions the player reports
+    const upright = video.rotation !== 0 ? createCanvas(1, 1, false) : null;
+
+    let pipelineError: Error | null = null;
+    let lastKeyframe = -Infinity;
+    let framesDone = 0;
+
+    const encoder = new VideoEncoder({
+        output: (chunk, meta) => output.addVideoChunk(chunk, meta),
+        error: (e) => { pipelineError = e; },
+    });
+    encoder.configure(output.videoConfig);
+
+    const decoder = new VideoDecoder({
+        output: (frame) => {
+            const time = frame.timestamp / 1e6;
+            if (upright) {
+                drawUpright(upright.canvas, upright.ctx, frame, video.rotation);
+                drawOutputFrame(ctx, upright.canvas, { width: upright.canvas.width, height: upright.canvas.height }, layers, reframe, time);
+            } else {
+                drawOutputFrame(ctx, frame, { width: frame.displayWidth, height: frame.displayHeight }, layers, reframe, time);
+            }
+            const duration = frame.duration ?? undefined;
+            frame.close();
+
+            const output = new VideoFrame(canvas, { timestamp: Math.round(time * 1e6), duration });
+            const keyFrame = time - lastKeyframe >= KEYFRAME_INTERVAL;
+            if (keyFrame) lastKeyframe = time;
+            encoder.encode(output, { keyFrame });
+            output.close();
+            framesDone++;
+        },
+        error: (e) => { pipelineError = e; },
+    });
+    decoder.configure(video.config);
+
+    // Progress is only reported when the shown percentage changes, not for every sample
+    let reportedPercent = -1;
+    try {
+        for (const sample of video.samples) {
+            if (signal?.aborted) throw createAbortError();
+            if (pipelineError) throw pipelineError;
+            decoder.decode(new EncodedVideoChunk({
+                type: sample.is_sync ? 'key' : 'delta',
+                timestamp: Math.round((sample.cts * 1e6) / sample.timescale),
+                duration: Math.round((sample.duration * 1e6) / sample.timescale),
+                data: sample.data!,
+            }));
+            while (decoder.decodeQueueSize > MAX_QUEUE_SIZE || encoder.encodeQueueSize > MAX_QUEUE_SIZE) {
+                await yieldToEventLoop();
+            }
+            const percent = Math.round((framesDone / video.samples.length) * 100);
+            if (percent !== reportedPercent) {
+                reportedPercent = percent;
+                setProgress(`Rendering video... ${percent}%`);
+            }
+        }
+        await decoder.flush();
+        await encoder.flush();
+        if (pipelineError) throw pipelineError;
+
+        if (audio && output.audioConfig) {
+            setProgress('Encoding audio...');
+            await encodeAudio(audio, output, output.audioConfig, signal);
+        }
+    } finally {
+        if (decoder.state !== 'closed') decoder.close();
+        if (encoder.state !== 'closed') encoder.close();
+    }
+
+    const result = await completeOutput(output.finalize(), plan, settings, videoBitrate, videoFile, setProgress, signal);
+    setProgress('Rendering complete.');
+    return URL.createObjectURL(result);
+};
+
+/**
+ * Draws each frame of a caption-only overlay, one frame per 1/frameRate seconds of caption time,
+ * and hands the canvas to `onFrame`. Timing comes from frame numbers rather than the wall clock,
+ * so throttled tabs do not drift. A null background leaves the canvas transparent.
+ */
+const drawOverlayFrames = async (
+    layers: CaptionLayer[],
+    ctx: CanvasRenderingContext2D,
+    duration: number,
+    frameRate: number,
+    background: string | null,
+    onFrame: (index: number, time: number, hasCaption: boolean) => Promise<void>,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+) => {
+    const { width, height } = ctx.canvas;
+    const totalFrames = Math.ceil(duration * frameRate);
+    for (let i = 0; i < totalFrames; i++) {
+        if (signal?.aborted) throw createAbortError();
+        const time = i / frameRate;
+
+        if (background) {
+            ctx.fillStyle = background;
+            ctx.fillRect(0, 0, width, height);
+        } else {
+            ctx.clearRect(0, 0, width, height);
+        }
+        const hasCaption = drawCaptionLayers(ctx, layers, time, height);
+
+        await onFrame(i, time, hasCaption);
+        if (i % Math.round(frameRate) === 0) {
+            setProgress(`Rendering caption overlay... ${Math.round((i / totalFrames) * 100)}%`);
+        }
+    }
+};
+
+/**
+ * Encodes a caption overlay into the given output with WebCodecs.
+ */
+const encodeOverlay = async (
+    layers: CaptionLayer[],
+    output: EncodedOutput,
+    duration: number,
+    frameRate: number,
+    background: string | null,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const { canvas, ctx } = createCanvas(output.width, output.height, background === null);
+
+    let encoderError: Error | null = null;
+    const encoder = new VideoEncoder({
+        output: (chunk, meta) => output.addVideoChunk(chunk, meta),
+        error: (e) => { encoderError = e; },
+    });
+    encoder.configure(output.videoConfig);
+
+    const frameDuration = Math.round(1e6 / frameRate);
+    const keyframeEvery = Math.max(1, Math.round(frameRate * KEYFRAME_INTERVAL));
+    try {
+        await drawOverlayFrames(layers, ctx, duration, frameRate, background, async (index, time) => {
+            if (encoderError) throw encoderError;
+            const frame = new VideoFrame(canvas, { timestamp: Math.round(time * 1e6), duration: frameDuration });
+            encoder.encode(frame, { keyFrame: index % keyframeEvery === 0 });
+            frame.close();
+            while (encoder.encodeQueueSize > MAX_QUEUE_SIZE) {
+                await yieldToEventLoop();
+            }
+        }, setProgress, signal);
+        await encoder.flush();
+        if (encoderError) throw encoderError;
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+    return output.finalize();
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode a PNG frame.')), 'image/png');
+});
+
+/**
+ * Renders a transparent caption overlay as one PNG per frame. Frames without a caption
+ * share a single encoded image, which keeps long videos with sparse speech cheap.
+ */
+const renderPngFrames = async (
+    layers: CaptionLayer[],
+    videoDimensions: { width: number, height: number },
+    duration: number,
+    frameRate: number,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob[]> => {
+    const { canvas, ctx } = createCanvas(videoDimensions.width, videoDimensions.height, true);
+    const frames: Blob[] = [];
+    let blankFrame: Blob | null = null;
+    await drawOverlayFrames(layers, ctx, duration, frameRate, null, async (_index, _time, hasCaption) => {
+        if (!hasCaption) {
+            blankFrame = blankFrame ?? await canvasToPng(canvas);
+            frames.push(blankFrame);
+        } else {
+            frames.push(await canvasToPng(canvas));
+        }
+    }, setProgress, signal);
+    return frames;
+};
+
+/**
+ * Packs PNG frames into a ZIP one frame at a time. The archive is gathered into Blobs as it grows,
+ * which the browser may keep out of the page's memory, and the data of the shared blank frame is
+ * read once and reused.
+ */
+const zipPngFrames = async (frames: Blob[], signal?: AbortSignal): Promise<Blob> => {
+    let parts: BlobPart[] = [];
+    let zipError: Error | null = null;
+    const zip = new Zip((error, chunk) => {
+        if (error) zipError = error;
+        else parts.push(chunk);
+    });
+    // Only the blank frame is shared; it is the one that appears twice in a row
+    let previous: { frame: Blob, data: Uint8Array } | null = null;
+    let shared: { frame: Blob, data: Uint8Array } | null = null;
+    for (let i = 0; i < frames.length; i++) {
+        throwIfAborted(signal);
+        const frame = frames[i];
+        if (previous?.frame === frame) shared = previous;
+        const data = shared?.frame === frame ? shared.data : new Uint8Array(await frame.arrayBuffer());
+        previous = { frame, data };
+        // PNG data is already compressed, so the frames are stored as they are
+        const file = new ZipPassThrough(`frame_${String(i).padStart(6, '0')}.png`);
+        zip.add(file);
+        file.push(data, true);
+        if (zipError) throw zipError;
+        if (parts.length >= ZIP_PARTS_PER_BLOB) parts = [new Blob(parts)];
+    }
+    zip.end();
+    if (zipError) throw zipError;
+    return new Blob(parts, { type: 'application/zip' });
+};
+
+/**
+ * Renders captions alone on a solid key color, for editors that only accept opaque video.
+ */
+export const renderGreenScreenOffline = async (
+    layers: CaptionLayer[],
+    videoDimensions: { width: number, height: number },
+    duration: number,
+    frameRate: number,
+    keyColor: string,
+    settings: ExportSettings,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<string> => {
+    if (duration <= 0) {
+        throw new Error('Video duration must be positive.');
+    }
+    const videoBitrate = getVideoBitrate(settings, videoDimensions.width, videoDimensions.height, frameRate);
+    const plan = await planOutput(settings, videoDimensions, frameRate, videoBitrate, false);
+    const rendered = await encodeOverlay(layers, plan.output, duration, frameRate, keyColor, setProgress, signal);
+    const result = await completeOutput(rendered, plan, settings, videoBitrate, null, setProgress, signal);
+    setProgress('Rendering complete.');
+    return URL.createObjectURL(result);
+};
+
+/**
+ * Renders captions alone with a real alpha channel, so they composite cleanly in an editor:
+ * VP9 WebM with alpha, a ZIP of PNG frames, or ProRes 4444 through FFmpeg. WebM uses the browser's
+ * encoder when it supports alpha and falls back to encoding PNG frames with FFmpeg.
+ */
+export const renderTransparentOverlay = async (
+    layers: CaptionLayer[],
+    videoDimensions: { width: number, height: number },
+    duration: number,
+    frameRate: number,
+    format: Exclude<OverlayFormat, 'green-screen'>,
+    settings: ExportSettings,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<string> => {
+    if (duration <= 0) {
+        throw new Error('Video duration must be positive.');
+    }
+    const videoBitrate = getVideoBitrate(settings, videoDimensions.width, videoDimensions.height, frameRate);
+
+    let result: Blob;
+    if (format === 'webm-alpha' && isOfflineEncodeSupported()) {
+        const output = createOutput('webm', videoDimensions, frameRate, videoBitrate, false, true);
+        if ((await VideoEncoder.isConfigSupported(output.videoConfig)).supported) {
+            result = await encodeOverlay(layers, output, duration, frameRate, null, setProgress, signal);
+            setProgress('Rendering complete.');
+            return URL.createObjectURL(result);
+        }
+    }
+
+    // Checked before rendering, so a clip too long for FFmpeg fails at once rather than after every frame is drawn
+    if (format !== 'png-sequence') {
+        const bytesPerSecond = videoDimensions.width * videoDimensions.height * PNG_BYTES_PER_PIXEL * frameRate;
+        const maxDuration = Math.floor(IMAGE_SEQUENCE_MEMORY_BUDGET / bytesPerSecond);
+        if (duration > maxDuration) {
+            throw new Error(`This overlay is too long to encode in the browser: at this size and frame rate it can be at most ${maxDuration} seconds. Export a transparent PNG sequence instead, or a shorter clip.`);
+        }
+    }
+
+    const frames = await renderPngFrames(layers, videoDimensions, duration, frameRate, setProgress, signal);
+    if (format === 'png-sequence') {
+        setProgress('Packing frames into a ZIP...');
+        result = await zipPngFrames(frames, signal);
+    } else {
+        result = await encodeImageSequence(frames, frameRate, format === 'prores-4444' ? 'prores-4444' : 'vp9-alpha', videoBitrate, setProgress, signal);
+    }
+    setProgress('Rendering complete.');
+    return URL.createObjectURL(result);
+};
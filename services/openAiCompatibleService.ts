@@ -0,0 +1,185 @@
+import { GeneratedCue, PcmAudio, TranscriptionProvider, TranscriptionProviderSettings, TranscriptionResult, TranslationProvider, WordCue } from '../types';
+import { encodeWav } from './audioEncoding';
+import { distributeWordTimes } from './subtitleParser';
+import { withRetry } from './retry';
+import { whisperPromptTerms } from './vocabulary';
+import { translationPrompt } from './captionTranslator';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'whisper-1';
+// The transcription model cannot translate text, so translation uses a chat model on the same server by default
+export const DEFAULT_OPENAI_TRANSLATION_MODEL = 'gpt-4o-mini';
+
+type OpenAiSettings = Pick<TranscriptionProviderSettings, 'apiKey' | 'model' | 'baseUrl'> & Partial<Pick<TranscriptionProviderSettings, 'vocabulary' | 'translationModel'>>;
+
+// Shape of a Whisper-style `verbose_json` response; servers may leave out either list.
+// Servers with diarization, such as WhisperX, add a speaker to words and segments.
+interface VerboseTranscription {
+    text?: string;
+    words?: { word: string, start: number, end: number, speaker?: string }[];
+    segments?: { start: number, end: number, text: string, speaker?: string }[];
+}
+
+// Diarization labels like "SPEAKER_00" become the app's "S1"
+const toSpeakerId = (label: string | undefined) => {
+    if (!label) return undefined;
+    const number = /(\d+)$/.exec(label)?.[1];
+    return number !== undefined ? `S${Number(number) + 1}` : label;
+};
+
+/**
+ * Groups timed words into cues using the segment boundaries, or estimates word times
+ * inside segments when the server only returns segment-level timing.
+ */
+const toCues = (response: VerboseTranscription): GeneratedCue[] => {
+    const segments = response.segments ?? [];
+    const words: WordCue[] = (response.words ?? [])
+        .map(w => {
+            const speaker = toSpeakerId(w.speaker);
+            return { word: w.word.trim(), startTime: w.start, endTime: w.end, ...(speaker ? { speaker } : {}) };
+        })
+        .filter(w => w.word.length > 0);
+
+    if (words.length === 0) {
+        return segments
+            .map(segment => {
+                const segmentWords = segment.text.split(/\s+/).filter(Boolean);
+                const speaker = toSpeakerId(segment.speaker);
+                return {
+                    startTime: segment.start,
+                    endTime: segment.end,
+                    words: distributeWordTimes(segmentWords, segment.start, segment.end).map(w => speaker ? { ...w, speaker } : w),
+                };
+            })
+            .filter(cue => cue.words.length > 0);
+    }
+
+    if (segments.length === 0) {
+        return [{ startTime: words[0].startTime, endTime: words[words.length - 1].endTime, words }];
+    }
+
+    // Each word goes to the last segment that starts at or before it
+    const cues: GeneratedCue[] = segments.map(s => ({ startTime: s.start, endTime: s.end, words: [] }));
+    let segmentIndex = 0;
+    for (const word of words) {
+        while (segmentIndex + 1 < segments.length && segments[segmentIndex + 1].start <= word.startTime) {
+            segmentIndex++;
+        }
+        const segmentSpeaker = toSpeakerId(segments[segmentIndex].speaker);
+        cues[segmentIndex].words.push(word.speaker || !segmentSpeaker ? word : { ...word, speaker: segmentSpeaker });
+    }
+    return cues.filter(cue => cue.words.length > 0);
+};
+
+/**
+ * Transcribes audio with word timestamps through any endpoint that implements
+ * the OpenAI `/audio/transcriptions` API, such as a self-hosted Whisper server.
+ */
+export const transcribeWithOpenAiCompatible = async (
+    audio: PcmAudio,
+    settings: OpenAiSettings,
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
+): Promise<TranscriptionResult> => {
+    const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+    const form = new FormData();
+    form.append('file', encodeWav(audio), 'audio.wav');
+    form.append('model', settings.model || DEFAULT_OPENAI_MODEL);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    form.append('timestamp_granularities[]', 'segment');
+    // Whisper follows the spelling of words it sees in the prompt, which has a length limit
+    const promptTerms = whisperPromptTerms(settings.vocabulary ?? []);
+    if (promptTerms.length > 0) form.append('prompt', promptTerms.join(', '));
+
+    setStatusMessage(`Transcribing audio with ${baseUrl}...`);
+    const result = await withRetry(async (): Promise<VerboseTranscription> => {
+        const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+            method: 'POST',
+            headers: settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : undefined,
+            body: form,
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            const message = `Transcription request failed (${response.status} ${response.statusText})${detail ? `: ${detail.slice(0, 200)}` : ''}`;
+            // The status lets the retry helper tell rate limits from permanent failures
+            throw Object.assign(new Error(message), { status: response.status });
+        }
+        return response.json();
+    }, {
+        signal,
+        onRetry: (attempt, delayMs) => setStatusMessage(`Server is busy, retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt})...`),
+    });
+
+    const text = (result.text ?? result.segments?.map(s => s.text).join(' ') ?? '').trim();
+    if (!text) {
+        throw new Error("Transcription result was empty. The video may not contain speech.");
+    }
+
+    setStatusMessage("Audio transcribed successfully!");
+    const cues = toCues(result);
+    return { text, cues: cues.length > 0 ? cues : undefined };
+};
+
+/**
+ * Whisper-style servers return word timing with the transcription, so no second step is needed.
+ */
+export const createOpenAiCompatibleProvider = (settings: OpenAiSettings): TranscriptionProvider => ({
+    label: `OpenAI-compatible (${settings.model || DEFAULT_OPENAI_MODEL})`,
+    transcribe: (audio, setStatusMessage, signal) => transcribeWithOpenAiCompatible(audio, settings, setStatusMessage, signal),
+});
+
+/**
+ * Translates subtitle lines through the `/chat/completions` endpoint of the same server.
+ */
+export const translateWithOpenAiCompatible = async (
+    texts: string[],
+    targetLanguage: string,
+    settings: OpenAiSettings,
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
+): Promise<string[]> => {
+    const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    const prompt = translationPrompt(texts, targetLanguage,
+        `Reply with a JSON object {"translations": [...]} holding exactly ${texts.length} strings, one per line, in order.`);
+
+    const result = await withRetry(async (): Promise<{ choices?: { message?: { content?: string } }[] }> => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: settings.translationModel || DEFAULT_OPENAI_TRANSLATION_MODEL,
+                messages: [{ role: 'user', content: prompt }],
+                response_format: { type: 'json_object' },
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            const message = `Translation request failed (${response.status} ${response.statusText})${detail ? `: ${detail.slice(0, 200)}` : ''}`;
+            throw Object.assign(new Error(message), { status: response.status });
+        }
+        return response.json();
+    }, {
+        signal,
+        onRetry: (attempt, delayMs) => setStatusMessage(`Server is busy, retrying translation in ${Math.round(delayMs / 1000)}s (attempt ${attempt})...`),
+    });
+
+    const content = result.choices?.[0]?.message?.content ?? '';
+    const translations: unknown = JSON.parse(content || '{}').translations;
+    if (!Array.isArray(translations)) {
+        throw new Error("The server returned an invalid translation.");
+    }
+    return translations.map(t => String(t ?? ''));
+};
+
+export const createOpenAiCompatibleTranslator = (settings: OpenAiSettings): TranslationProvider => ({
+    label: `OpenAI-compatible (${settings.translationModel || DEFAULT_OPENAI_TRANSLATION_MODEL})`,
+    translate: (texts, targetLanguage, setStatusMessage, signal) =>
+        translateWithOpenAiCompatible(texts, targetLanguage, settings, setStatusMessage, signal),
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SUBTITLE_STYLE } from './captionStyles';
+import { migrateProject, PROJECT_SCHEMA_VERSION, summarizeProject } from './project';
+
+const savedCues = [
+    // Overlapping and zero-length timings are user edits, not damage
+    { startTime: 0, endTime: 1.5, words: [{ word: 'Hi', startTime: 0, endTime: 1.5, speaker: 'A' }] },
+    { startTime: 1, endTime: 1, words: [{ word: 'there', startTime: 1, endTime: 1 }] },
+];
+
+const open = (project: Record<string, unknown>) => migrateProject({ id: 'p1', originalCues: savedCues, ...project }, DEFAULT_SUBTITLE_STYLE);
+
+describe('migrateProject', () => {
+    it('keeps cue timings and speakers exactly as saved', () => {
+        expect(open({}).originalCues).toEqual(savedCues);
+    });
+
+    it('drops words without text or finite times, and cues left empty', () => {
+        const project = open({
+            originalCues: [
+                { startTime: 0, endTime: 1, words: [{ word: ' ', startTime: 0, endTime: 0.5 }, { word: 'ok', startTime: 0.5, endTime: 1 }] },
+                { startTime: 1, endTime: 2, words: [{ word: 'lost', startTime: null, endTime: 2 }] },
+                'not a cue',
+            ],
+        });
+        expect(project.originalCues).toEqual([{ startTime: 0, endTime: 1, words: [{ word: 'ok', startTime: 0.5, endTime: 1 }] }]);
+    });
+
+    it('keeps caption text and timings on tracks', () => {
+        const project = open({ captionTracks: [{ id: 'fr', captions: [{ ...savedCues[0], text: 'Salut' }] }] });
+        expect(project.captionTracks[0].captions).toEqual([{ id: 0, ...savedCues[0], text: 'Salut' }]);
+        expect(project.captionTracks[0].styles.segmentation).toEqual(DEFAULT_SUBTITLE_STYLE.segmentation);
+    });
+
+    it('rejects data that is not a project or comes from a newer schema', () => {
+        expect(() => migrateProject({ id: 'p1' }, DEFAULT_SUBTITLE_STYLE)).toThrow('not a caption project');
+        expect(() => open({ version: PROJECT_SCHEMA_VERSION + 1 })).toThrow('newer version');
+    });
+});
+
+describe('summarizeProject', () => {
+    it('reads the listed fields without checking cues', () => {
+        expect(summarizeProject({ id: 'p1', name: 'Talk', updatedAt: 5, originalCues: [{}, {}] })).toEqual({
+            id: 'p1', name: 'Talk', updatedAt: 5, video: null, cueCount: 2,
+        });
+        expect(summarizeProject({ id: 'p1', version: PROJECT_SCHEMA_VERSION + 1, originalCues: [] })).toBeNull();
+    });
+});
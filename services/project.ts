@@ -0,0 +1,198 @@
+import { CaptionCue, CaptionTrack, GeneratedCue, SubtitleStyle, WordCue } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, ExportSettings } from './exportFormats';
+import { DEFAULT_REFRAME_SETTINGS, ReframeSettings } from './reframe';
+
+/**
+ * Bumped whenever the saved shape changes. Add a step to MIGRATIONS that upgrades projects
+ * from the previous version, so saved and exported projects keep opening.
+ */
+export const PROJECT_SCHEMA_VERSION = 1;
+
+// Identifies the video a project was made for; the file itself is stored separately, or not at all
+export interface VideoReference {
+    name: string;
+    type: string;
+    size: number;
+    lastModified: number;
+}
+
+export interface Project {
+    version: number;
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    video: VideoReference | null;
+    originalCues: GeneratedCue[];
+    styles: SubtitleStyle;
+    captionTracks: CaptionTrack[];
+    speakerNames: Record<string, string>;
+    exportSettings: ExportSettings;
+    reframe: ReframeSettings;
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'updatedAt' | 'video'> & { cueCount: number };
+
+type ProjectData = Record<string, unknown>;
+
+// Upgrades a project from the version before each key to that version
+const MIGRATIONS: Record<number, (project: ProjectData) => ProjectData> = {};
+
+export const toVideoReference = (file: File): VideoReference => ({
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    lastModified: file.lastModified,
+});
+
+export const isSameVideo = (reference: VideoReference | null, file: File | null) =>
+    !!reference && !!file && reference.name === file.name && reference.size === file.size;
+
+export const createProject = (video: File | null, styles: SubtitleStyle): Project => {
+    const now = Date.now();
+    return {
+        version: PROJECT_SCHEMA_VERSION,
+        id: crypto.randomUUID(),
+        name: video ? video.name.replace(/\.[^/.]+$/, '') : 'Untitled project',
+        createdAt: now,
+        updatedAt: now,
+        video: video ? toVideoReference(video) : null,
+        originalCues: [],
+        styles,
+        captionTracks: [],
+        speakerNames: {},
+        exportSettings: DEFAULT_EXPORT_SETTINGS,
+        reframe: DEFAULT_REFRAME_SETTINGS,
+    };
+};
+
+/**
+ * Reads the fields the project list shows straight from saved data, without migrating or checking
+ * the cues, so listing stays cheap. Returns null for data that cannot be opened.
+ */
+export const summarizeProject = (data: unknown): ProjectSummary | null => {
+    if (!data || typeof data !== 'object') return null;
+    const project = data as ProjectData;
+    if (typeof project.id !== 'string' || !Array.isArray(project.originalCues)) return null;
+    if (typeof project.version === 'number' && project.version > PROJECT_SCHEMA_VERSION) return null;
+    return {
+        id: project.id,
+        name: typeof project.name === 'string' ? project.name : 'Untitled project',
+        updatedAt: typeof project.updatedAt === 'number' ? project.updatedAt : 0,
+        video: (project.video as VideoReference | null | undefined) ?? null,
+        cueCount: project.originalCues.length,
+    };
+};
+
+// Fills style fields added since the project was saved, including nested segmentation rules
+const withStyleDefaults = (styles: unknown, defaults: SubtitleStyle): SubtitleStyle => {
+    const saved = (styles && typeof styles === 'object' ? styles : {}) as Partial<SubtitleStyle>;
+    return {
+        ...defaults,
+        ...saved,
+        segmentation: { ...defaults.segmentation, ...saved.segmentation },
+        speakerStyles: { ...saved.speakerStyles },
+    };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Reads a saved cue exactly as stored, so timing edits survive saving and reopening. Words without
+ * text or finite times are dropped, and so is a cue left with no words; nothing is re-timed.
+ */
+const readCue = (data: unknown): GeneratedCue | null => {
+    if (!data || typeof data !== 'object') return null;
+    const cue = data as Partial<GeneratedCue>;
+    const rawWords: unknown[] = Array.isArray(cue.words) ? cue.words : [];
+    const words = rawWords.flatMap((rawWord): WordCue[] => {
+        const word = rawWord as Partial<WordCue> | null;
+        if (typeof word?.word !== 'string' || !word.word.trim() || !isFiniteNumber(word.startTime) || !isFiniteNumber(word.endTime)) {
+            return [];
+        }
+        const { startTime, endTime, speaker } = word;
+        return [typeof speaker === 'string' && speaker ? { word: word.word, startTime, endTime, speaker } : { word: word.word, startTime, endTime }];
+    });
+    if (words.length === 0) return null;
+    return {
+        startTime: isFiniteNumber(cue.startTime) ? cue.startTime : words[0].startTime,
+        endTime: isFiniteNumber(cue.endTime) ? cue.endTime : words[words.length - 1].endTime,
+        words,
+    };
+};
+
+const readCues = (cues: unknown): GeneratedCue[] =>
+    Array.isArray(cues) ? cues.flatMap(cue => readCue(cue) ?? []) : [];
+
+// Keeps tracks with an id, and their captions that still have words
+const readCaptionTracks = (tracks: unknown, defaultStyles: SubtitleStyle): CaptionTrack[] => {
+    if (!Array.isArray(tracks)) return [];
+    return tracks.flatMap(track => {
+        if (!track || typeof track !== 'object' || typeof track.id !== 'string') return [];
+        const rawCaptions: unknown[] = Array.isArray(track.captions) ? track.captions : [];
+        const captions = rawCaptions.flatMap(caption => {
+            const cue = readCue(caption);
+            if (!cue) return [];
+            const { text } = caption as Partial<CaptionCue>;
+            return [{ ...cue, text: typeof text === 'string' ? text : cue.words.map(w => w.word).join(' ') }];
+        }).map((caption, id) => ({ id, ...caption }));
+        return [{
+            id: track.id,
+            language: typeof track.language === 'string' ? track.language : '',
+            label: typeof track.label === 'string' ? track.label : track.id,
+            captions,
+            styles: withStyleDefaults(track.styles, defaultStyles),
+        }];
+    });
+};
+
+/**
+ * Brings a saved or imported project up to the current schema: runs the migrations it is missing,
+ * then fills anything still absent with defaults and drops malformed cues and words. Timings are kept
+ * as saved. Throws for data that is not a project, or that a newer version of the app wrote.
+ */
+export const migrateProject = (data: unknown, defaultStyles: SubtitleStyle): Project => {
+    if (!data || typeof data !== 'object' || !Array.isArray((data as ProjectData).originalCues)) {
+        throw new Error('This file is not a caption project.');
+    }
+    let project = data as ProjectData;
+    let version = typeof project.version === 'number' ? project.version : 1;
+    if (version > PROJECT_SCHEMA_VERSION) {
+        throw new Error(`This project was saved by a newer version of the app (schema ${version}).`);
+    }
+    while (version < PROJECT_SCHEMA_VERSION) {
+        version++;
+        project = MIGRATIONS[version]?.(project) ?? project;
+    }
+
+    const now = Date.now();
+    return {
+        version: PROJECT_SCHEMA_VERSION,
+        id: typeof project.id === 'string' ? project.id : crypto.randomUUID(),
+        name: typeof project.name === 'string' ? project.name : 'Untitled project',
+        createdAt: typeof project.createdAt === 'number' ? project.createdAt : now,
+        updatedAt: typeof project.updatedAt === 'number' ? project.updatedAt : now,
+        video: (project.video as VideoReference | null | undefined) ?? null,
+        originalCues: readCues(project.originalCues),
+        styles: withStyleDefaults(project.styles, defaultStyles),
+        captionTracks: readCaptionTracks(project.captionTracks, defaultStyles),
+        speakerNames: (project.speakerNames as Record<string, string> | undefined) ?? {},
+        exportSettings: { ...DEFAULT_EXPORT_SETTINGS, ...(project.exportSettings as Partial<ExportSettings> | undefined) },
+        reframe: { ...DEFAULT_REFRAME_SETTINGS, ...(project.reframe as Partial<ReframeSettings> | undefined) },
+    };
+};
+
+export const projectToJson = (project: Project): string => JSON.stringify(project, null, 2);
+
+/**
+ * Reads an exported project file. It gets a new id, so importing never overwrites a saved project.
+ */
+export const parseProjectJson = (content: string, defaultStyles: SubtitleStyle): Project => {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        throw new Error('The project file is not valid JSON.');
+    }
+    return { ...migrateProject(data, defaultStyles), id: crypto.randomUUID(), updatedAt: Date.now() };
+};
@@ -0,0 +1,114 @@
+import { SubtitleStyle } from '../types';
+import { migrateProject, Project, ProjectSummary, summarizeProject } from './project';
+
+const DB_NAME = 'auto-captioner';
+const DB_VERSION = 2;
+const PROJECTS = 'projects';
+// Videos are kept apart from the project data so listing projects never reads them
+const VIDEOS = 'videos';
+// Uploaded font files, keyed by family name; too large for localStorage's quota
+const FONTS = 'fonts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    dbPromise = dbPromise ?? new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(VIDEOS)) db.createObjectStore(VIDEOS);
+            if (!db.objectStoreNames.contains(FONTS)) db.createObjectStore(FONTS);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Could not open the project database.'));
+    });
+    // A failed open is retried on the next call rather than cached
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The save was aborted.'));
+});
+
+export const saveProject = async (project: Project): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(PROJECTS, 'readwrite');
+    transaction.objectStore(PROJECTS).put(project);
+    await transactionDone(transaction);
+};
+
+/**
+ * Stores the video of a project. Large videos can exceed the browser's storage quota; the project
+ * is still saved without it and asks for the file when reopened.
+ */
+export const saveProjectVideo = async (projectId: string, video: File): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(VIDEOS, 'readwrite');
+    transaction.objectStore(VIDEOS).put(video, projectId);
+    await transactionDone(transaction);
+};
+
+export const loadProject = async (
+    id: string,
+    defaultStyles: SubtitleStyle
+): Promise<{ project: Project, video: File | null }> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([PROJECTS, VIDEOS], 'readonly');
+    const [data, video] = await Promise.all([
+        toPromise(transaction.objectStore(PROJECTS).get(id)),
+        toPromise(transaction.objectStore(VIDEOS).get(id)),
+    ]);
+    if (!data) throw new Error('The project no longer exists.');
+    return { project: migrateProject(data, defaultStyles), video: video instanceof File ? video : null };
+};
+
+/**
+ * Saved projects, most recently changed first. Projects are only fully read when opened.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(PROJECTS, 'readonly');
+    const projects: unknown[] = await toPromise(transaction.objectStore(PROJECTS).getAll());
+    return projects
+        .flatMap(data => summarizeProject(data) ?? [])
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([PROJECTS, VIDEOS], 'readwrite');
+    transaction.objectStore(PROJECTS).delete(id);
+    transaction.objectStore(VIDEOS).delete(id);
+    await transactionDone(transaction);
+};
+
+/**
+ * Replaces the stored font files with these. Throws when they do not fit in the browser's storage quota.
+ */
+export const saveFontFiles = async (fonts: { family: string, dataUrl: string }[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(FONTS, 'readwrite');
+    const store = transaction.objectStore(FONTS);
+    store.clear();
+    fonts.forEach(font => store.put(font.dataUrl, font.family));
+    await transactionDone(transaction);
+};
+
+/**
+ * The stored font files as data URLs, by family name.
+ */
+export const loadFontFiles = async (): Promise<Map<string, string>> => {
+    const db = await openDatabase();
+    const store = db.transaction(FONTS, 'readonly').objectStore(FONTS);
+    const [families, dataUrls] = await Promise.all([toPromise(store.getAllKeys()), toPromise(store.getAll())]);
+    return new Map(families.map((family, i) => [String(family), String(dataUrls[i])]));
+};
@@ -0,0 +1,176 @@
+export type AspectRatio = 'source' | '9:16' | '1:1' | '4:5' | '16:9';
+
+// How the source fills a frame of another shape
+export type ReframeMode = 'crop' | 'blur' | 'letterbox';
+
+export type SafeAreaId = 'none' | 'tiktok' | 'reels' | 'shorts';
+
+/**
+ * Where the crop is centered from a time on, as a share of the source width and height.
+ * The center moves smoothly between keyframes and holds before the first and after the last.
+ */
+export interface CropKeyframe {
+    time: number;
+    x: number;
+    y: number;
+}
+
+export interface ReframeSettings {
+    aspectRatio: AspectRatio;
+    resolution: number; // length of the short side of the output, in pixels
+    mode: ReframeMode;
+    keyframes: CropKeyframe[]; // none centers the crop; a single one is a fixed center
+    safeArea: SafeAreaId;
+}
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface Size {
+    width: number;
+    height: number;
+}
+
+export const ASPECT_RATIOS: { value: AspectRatio, label: string, ratio: [number, number] | null }[] = [
+    { value: 'source', label: 'Same as source', ratio: null },
+    { value: '9:16', label: '9:16 (Shorts, Reels, TikTok)', ratio: [9, 16] },
+    { value: '1:1', label: '1:1 (Square feed)', ratio: [1, 1] },
+    { value: '4:5', label: '4:5 (Portrait feed)', ratio: [4, 5] },
+    { value: '16:9', label: '16:9 (Landscape)', ratio: [16, 9] },
+];
+
+export const RESOLUTIONS: { value: number, label: string }[] = [
+    { value: 720, label: '720p' },
+    { value: 1080, label: '1080p' },
+    { value: 1440, label: '1440p' },
+];
+
+export const REFRAME_MODES: { value: ReframeMode, label: string }[] = [
+    { value: 'crop', label: 'Crop to fill' },
+    { value: 'blur', label: 'Fit on blurred background' },
+    { value: 'letterbox', label: 'Fit with black bars' },
+];
+
+// Approximate margins each app covers with its own buttons and text, as shares of the frame
+export const SAFE_AREAS: { id: SafeAreaId, label: string, insets: { top: number, right: number, bottom: number, left: number } }[] = [
+    { id: 'none', label: 'Whole frame', insets: { top: 0, right: 0, bottom: 0, left: 0 } },
+    { id: 'tiktok', label: 'TikTok', insets: { top: 0.08, right: 0.12, bottom: 0.2, left: 0.05 } },
+    { id: 'reels', label: 'Instagram Reels', insets: { top: 0.13, right: 0.12, bottom: 0.2, left: 0.05 } },
+    { id: 'shorts', label: 'YouTube Shorts', insets: { top: 0.1, right: 0.14, bottom: 0.17, left: 0.05 } },
+];
+
+export const DEFAULT_REFRAME_SETTINGS: ReframeSettings = {
+    aspectRatio: 'source',
+    resolution: 1080,
+    mode: 'crop',
+    keyframes: [],
+    safeArea: 'none',
+};
+
+// 4:2:0 chroma subsampling needs even dimensions
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export const isReframed = (settings: ReframeSettings) => settings.aspectRatio !== 'source';
+
+/**
+ * Size of the rendered video: the source size, or the chosen shape at the chosen resolution.
+ */
+export const getOutputSize = (source: Size, settings: ReframeSettings): Size => {
+    const ratio = ASPECT_RATIOS.find(a => a.value === settings.aspectRatio)?.ratio;
+    if (!ratio) return source;
+    const [w, h] = ratio;
+    return w <= h
+        ? { width: even(settings.resolution), height: even(settings.resolution * h / w) }
+        : { width: even(settings.resolution * w / h), height: even(settings.resolution) };
+};
+
+// Eases in and out of each move, so pans do not start and stop abruptly
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+export const cropCenterAt = (keyframes: CropKeyframe[], time: number): { x: number, y: number } => {
+    if (keyframes.length === 0) return { x: 0.5, y: 0.5 };
+    const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+    const next = sorted.findIndex(k => k.time > time);
+    if (next === 0) return sorted[0];
+    if (next === -1) return sorted[sorted.length - 1];
+    const from = sorted[next - 1];
+    const to = sorted[next];
+    const t = smoothstep((time - from.time) / (to.time - from.time));
+    return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+};
+
+// Keyframes closer together than this, in seconds, are treated as the same one
+export const KEYFRAME_TOLERANCE = 0.1;
+
+/**
+ * Adds a keyframe, replacing one within a few frames of the same time.
+ */
+export const setCropKeyframe = (keyframes: CropKeyframe[], keyframe: CropKeyframe): CropKeyframe[] =>
+    [...keyframes.filter(k => Math.abs(k.time - keyframe.time) > KEYFRAME_TOLERANCE), keyframe]
+        .sort((a, b) => a.time - b.time);
+
+// The part of the source that fills the whole output, centered as close to `center` as the edges allow
+const coverSource = (source: Size, output: Size, center: { x: number, y: number }): Rect => {
+    const scale = Math.max(output.width / source.width, output.height / source.height);
+    const width = output.width / scale;
+    const height = output.height / scale;
+    const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+    return {
+        x: clamp(center.x * source.width - width / 2, source.width - width),
+        y: clamp(center.y * source.height - height / 2, source.height - height),
+        width,
+        height,
+    };
+};
+
+// Where the whole source sits inside the output, centered and as large as fits
+const fitInside = (source: Size, output: Size): Rect => {
+    const scale = Math.min(output.width / source.width, output.height / source.height);
+    const width = source.width * scale;
+    const height = source.height * scale;
+    return { x: (output.width - width) / 2, y: (output.height - height) / 2, width, height };
+};
+
+/**
+ * How one frame is drawn: which part of the source goes where in the output, and for the blur
+ * mode, which part of the source fills the background behind it.
+ */
+export const getFramePlacement = (
+    source: Size,
+    output: Size,
+    settings: ReframeSettings,
+    time: number
+): { source: Rect, destination: Rect, background: Rect | null } => {
+    const full = { x: 0, y: 0, width: source.width, height: source.height };
+    if (!isReframed(settings)) {
+        return { source: full, destination: { x: 0, y: 0, ...output }, background: null };
+    }
+    const center = cropCenterAt(settings.keyframes, time);
+    if (settings.mode === 'crop') {
+        return { source: coverSource(source, output, center), destination: { x: 0, y: 0, ...output }, background: null };
+    }
+    return {
+        source: full,
+        destination: fitInside(source, output),
+        background: settings.mode === 'blur' ? coverSource(source, output, center) : null,
+    };
+};
+
+/**
+ * The part of the output captions are placed in, which keeps them clear of the chosen app's buttons.
+ */
+export const getCaptionArea = (output: Size, settings: ReframeSettings): Rect => {
+    const { insets } = SAFE_AREAS.find(s => s.id === settings.safeArea) ?? SAFE_AREAS[0];
+    const x = output.width * insets.left;
+    const y = output.height * insets.top;
+    return {
+        x,
+        y,
+        width: output.width * (1 - insets.left - insets.right),
+        height: output.height * (1 - insets.top - insets.bottom),
+    };
+};
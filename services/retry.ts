@@ -0,0 +1,80 @@
+export interface RetryOptions {
+    signal?: AbortSignal;
+    retries: number; // attempts after the first one
+    baseDelayMs: number;
+    maxDelayMs: number;
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 20000,
+};
+
+// Rate limits and temporary server failures; anything else is worth surfacing immediately
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export const createAbortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError'
+    || (error instanceof Error && error.name === 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Whether an error looks transient: an HTTP status we retry on (the Gemini SDK and our fetch
+ * helpers put it on `status`), or a network failure before any response arrived.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+    if (isAbortError(error)) return false;
+    const status = (error as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') return RETRYABLE_STATUSES.has(status);
+    const message = error instanceof Error ? error.message : String(error);
+    return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|Failed to fetch|NetworkError|ECONNRESET|ETIMEDOUT/i.test(message);
+};
+
+/**
+ * Waits for the given time, rejecting early if the signal is aborted.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Runs an operation, retrying transient failures with exponential backoff and jitter.
+ */
+export const withRetry = async <T>(
+    operation: () => Promise<T>,
+    options: Partial<RetryOptions> = {}
+): Promise<T> => {
+    const { signal, retries, baseDelayMs, maxDelayMs, onRetry } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    for (let attempt = 0; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await operation();
+        } catch (error) {
+            if (signal?.aborted) throw createAbortError();
+            if (attempt >= retries || !isRetryableError(error)) throw error;
+
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            const delayMs = backoff / 2 + Math.random() * (backoff / 2);
+            onRetry?.(attempt + 1, delayMs, error);
+            await delay(delayMs, signal);
+        }
+    }
+};
@@ -0,0 +1,197 @@
+import { CaptionCue, GeneratedCue, SubtitleStyle, WordCue } from '../types';
+import { normalizeToken } from './cueValidator';
+
+// A speaker turn in a transcript: "S1: text" at the start of a line, optionally in brackets
+const SPEAKER_LABEL = /^\s*\[?(S\d+)\]?\s*:\s*/i;
+// How far ahead in the cue words the speaker match looks for the next transcript word
+const ALIGNMENT_LOOKAHEAD = 8;
+// Words two chunks both transcribed in their shared audio start within this many seconds of each other
+const OVERLAP_MATCH_TOLERANCE = 0.5;
+
+export interface SpeakerTranscript {
+    text: string; // the transcript without speaker labels
+    speakers: string[] | null; // the speaker of each word of `text`, or null when it had no labels
+}
+
+/**
+ * Removes the speaker labels from a transcript, remembering who said each word.
+ * Text before the first label is given to the first speaker.
+ */
+export const parseSpeakerTurns = (transcript: string): SpeakerTranscript => {
+    const words: string[] = [];
+    const speakers: string[] = [];
+    let speaker: string | undefined;
+    let labelled = false;
+    const unlabelled: number[] = [];
+    for (const line of transcript.split(/\r?\n/)) {
+        const match = SPEAKER_LABEL.exec(line);
+        if (match) {
+            speaker = match[1].toUpperCase();
+            labelled = true;
+        }
+        for (const word of line.slice(match ? match[0].length : 0).split(/\s+/).filter(Boolean)) {
+            if (!speaker) unlabelled.push(words.length);
+            words.push(word);
+            speakers.push(speaker ?? '');
+        }
+    }
+    if (!labelled) return { text: transcript, speakers: null };
+    const first = speakers.find(Boolean)!;
+    unlabelled.forEach(i => { speakers[i] = first; });
+    return { text: words.join(' '), speakers };
+};
+
+/**
+ * Gives cue words the speaker of the transcript word they match, using the same greedy lookahead
+ * as the caption validator. Words that match nothing, such as words the AI added, keep the speaker
+ * of the word before them.
+ */
+export const assignSpeakers = (cues: GeneratedCue[], transcript: SpeakerTranscript): GeneratedCue[] => {
+    if (!transcript.speakers) return fillSpeakerGaps(cues);
+    const transcriptWords = transcript.text.split(/\s+/).filter(Boolean);
+    const cueWords = cues.flatMap(cue => cue.words);
+    const assigned: (string | undefined)[] = cueWords.map(() => undefined);
+
+    let cursor = 0;
+    transcriptWords.forEach((transcriptWord, i) => {
+        const token = normalizeToken(transcriptWord);
+        if (!token) return;
+        for (let k = cursor; k < Math.min(cueWords.length, cursor + ALIGNMENT_LOOKAHEAD); k++) {
+            if (normalizeToken(cueWords[k].word) === token) {
+                assigned[k] = transcript.speakers![i];
+                cursor = k + 1;
+                return;
+            }
+        }
+    });
+
+    let index = 0;
+    return fillSpeakerGaps(cues.map(cue => ({
+        ...cue,
+        words: cue.words.map(word => {
+            const speaker = assigned[index++];
+            return speaker ? { ...word, speaker } : word;
+        }),
+    })));
+};
+
+// Words without a speaker inherit the previous word's, or the next one's at the start
+const fillSpeakerGaps = (cues: GeneratedCue[]): GeneratedCue[] => {
+    const words = cues.flatMap(cue => cue.words);
+    let current = words.find(w => w.speaker)?.speaker;
+    if (!current) return cues;
+    return cues.map(cue => ({
+        ...cue,
+        words: cue.words.map(word => {
+            if (word.speaker) {
+                current = word.speaker;
+                return word;
+            }
+            return { ...word, speaker: current };
+        }),
+    }));
+};
+
+/**
+ * Splits cues wherever the speaker changes, so every cue has a single speaker.
+ */
+export const splitCuesBySpeaker = (cues: GeneratedCue[]): GeneratedCue[] => cues.flatMap(cue => {
+    const parts: WordCue[][] = [];
+    for (const word of cue.words) {
+        const part = parts[parts.length - 1];
+        if (part && part[part.length - 1].speaker === word.speaker) {
+            part.push(word);
+        } else {
+            parts.push([word]);
+        }
+    }
+    if (parts.length <= 1) return [cue];
+    return parts.map(words => ({ startTime: words[0].startTime, endTime: words[words.length - 1].endTime, words }));
+});
+
+/**
+ * Renames a chunk's speaker labels, which the AI numbers per chunk, to the ids used for the whole
+ * recording. Words both this chunk and the one before transcribed in their shared audio vote for
+ * which earlier speaker each label is. A label with no such words is taken to be an earlier
+ * speaker who is not in this chunk yet, in order of first appearance, since most recordings keep
+ * the same people throughout; only once every earlier speaker is used does it become a new one.
+ * `previousWords` are in recording time, `cues` in chunk time starting at `offset`.
+ */
+export const matchChunkSpeakers = (
+    cues: GeneratedCue[],
+    offset: number,
+    previousWords: WordCue[],
+    knownSpeakers: string[]
+): GeneratedCue[] => {
+    const labels = listSpeakers(cues);
+    if (labels.length === 0) return cues;
+
+    const votes = new Map<string, number>(); // "label|speaker" -> shared words
+    for (const word of cues.flatMap(cue => cue.words)) {
+        const token = normalizeToken(word.word);
+        const shared = previousWords.find(p => p.speaker && normalizeToken(p.word) === token
+            && Math.abs(p.startTime - (word.startTime + offset)) < OVERLAP_MATCH_TOLERANCE);
+        if (!shared || !word.speaker) continue;
+        const key = `${word.speaker}|${shared.speaker}`;
+        votes.set(key, (votes.get(key) ?? 0) + 1);
+    }
+
+    // Strongest evidence first, each label and each earlier speaker used once
+    const mapping = new Map<string, string>();
+    const taken = new Set<string>();
+    for (const [key] of [...votes].sort((a, b) => b[1] - a[1])) {
+        const [label, speaker] = key.split('|');
+        if (mapping.has(label) || taken.has(speaker)) continue;
+        mapping.set(label, speaker);
+        taken.add(speaker);
+    }
+    const unused = knownSpeakers.filter(speaker => !taken.has(speaker));
+    const used = new Set([...knownSpeakers, ...taken]);
+    let next = 1;
+    for (const label of labels.filter(l => !mapping.has(l))) {
+        let speaker = unused.shift();
+        if (!speaker) {
+            while (used.has(`S${next}`)) next++;
+            speaker = `S${next}`;
+            used.add(speaker);
+        }
+        mapping.set(label, speaker);
+    }
+
+    return cues.map(cue => ({
+        ...cue,
+        words: cue.words.map(word => word.speaker ? { ...word, speaker: mapping.get(word.speaker) } : word),
+    }));
+};
+
+/**
+ * Speaker ids in order of first appearance.
+ */
+export const listSpeakers = (cues: { words: WordCue[] }[]): string[] =>
+    [...new Set(cues.flatMap(cue => cue.words).map(w => w.speaker).filter((s): s is string => !!s))];
+
+export const captionSpeaker = (caption: { words: WordCue[] }): string | undefined => caption.words[0]?.speaker;
+
+/**
+ * The name shown for a speaker: the one given in the UI, or "Speaker 2" for an unnamed "S2".
+ */
+export const speakerName = (speaker: string, names: Record<string, string>): string => {
+    const name = names[speaker]?.trim();
+    if (name) return name;
+    const number = /^S(\d+)$/i.exec(speaker)?.[1];
+    return number ? `Speaker ${number}` : speaker;
+};
+
+/**
+ * The style a caption is drawn in: the track style with its speaker's overrides applied.
+ */
+export const styleForCaption = (styles: SubtitleStyle, caption: CaptionCue): SubtitleStyle => {
+    const speaker = captionSpeaker(caption);
+    const override = speaker ? styles.speakerStyles[speaker] : undefined;
+    if (!override) return styles;
+    return {
+        ...styles,
+        color: override.color ?? styles.color,
+        positionY: override.positionY ?? styles.positionY,
+    };
+};
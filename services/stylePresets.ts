@@ -0,0 +1,154 @@
+import { SubtitleStyle } from '../types';
+import { ACTIVE_WORD_EFFECTS } from './captionEffects';
+import { CustomFont, readCustomFonts } from './customFonts';
+
+/**
+ * The look a preset carries. Caption splitting and per-speaker overrides belong to the video
+ * being captioned, so applying a preset keeps them.
+ */
+export type PresetStyle = Omit<SubtitleStyle, 'segmentation' | 'speakerStyles'>;
+
+export interface StylePreset {
+    id: string;
+    name: string;
+    builtIn: boolean;
+    style: PresetStyle;
+}
+
+const STORAGE_KEY = 'auto-captioner.stylePresets';
+const EXPORT_VERSION = 1;
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+    {
+        id: 'hormozi',
+        name: 'Hormozi',
+        builtIn: true,
+        style: {
+            fontSize: 8, positionY: 30, fontFamily: "'Montserrat', sans-serif",
+            color: '#FFFFFF', backgroundColor: '#000000', highlightColor: '#FFE600', showBackground: false,
+            strokeWidth: 12, strokeColor: '#000000', showShadow: true, shadowColor: '#000000', shadowBlur: 0, shadowOffset: 6,
+            uppercase: true, letterSpacing: 0, activeWordEffect: 'pop',
+        },
+    },
+    {
+        id: 'minimal',
+        name: 'Minimal',
+        builtIn: true,
+        style: {
+            fontSize: 5, positionY: 8, fontFamily: 'Arial',
+            color: '#FFFFFF', backgroundColor: '#000000', highlightColor: '#FFFFFF', showBackground: false,
+            strokeWidth: 0, strokeColor: '#000000', showShadow: true, shadowColor: '#000000', shadowBlur: 20, shadowOffset: 0,
+            uppercase: false, letterSpacing: 0, activeWordEffect: 'none',
+        },
+    },
+    {
+        id: 'netflix',
+        name: 'Netflix',
+        builtIn: true,
+        style: {
+            fontSize: 5.5, positionY: 8, fontFamily: 'Arial',
+            color: '#FFFFFF', backgroundColor: '#000000', highlightColor: '#FFFFFF', showBackground: false,
+            strokeWidth: 4, strokeColor: '#000000', showShadow: true, shadowColor: '#000000', shadowBlur: 8, shadowOffset: 3,
+            uppercase: false, letterSpacing: 0, activeWordEffect: 'none',
+        },
+    },
+    {
+        id: 'karaoke',
+        name: 'Karaoke',
+        builtIn: true,
+        style: {
+            fontSize: 7, positionY: 12, fontFamily: "'The Luckiest Guy', cursive",
+            color: '#FFFFFF', backgroundColor: '#000000', highlightColor: '#00D9FF', showBackground: true,
+            strokeWidth: 0, strokeColor: '#000000', showShadow: false, shadowColor: '#000000', shadowBlur: 10, shadowOffset: 5,
+            uppercase: false, letterSpacing: 0, activeWordEffect: 'fill',
+        },
+    },
+];
+
+const toPresetStyle = ({ segmentation, speakerStyles, ...style }: SubtitleStyle): PresetStyle => style;
+
+export const createStylePreset = (name: string, styles: SubtitleStyle): StylePreset => ({
+    id: crypto.randomUUID(),
+    name,
+    builtIn: false,
+    style: toPresetStyle(styles),
+});
+
+export const applyStylePreset = (styles: SubtitleStyle, preset: StylePreset): SubtitleStyle => ({
+    ...styles,
+    ...preset.style,
+});
+
+const isValidStyleValue = (key: string, value: unknown, fallback: unknown) => {
+    if (typeof value !== typeof fallback) return false;
+    if (typeof value === 'number') return Number.isFinite(value);
+    if (key === 'activeWordEffect') return ACTIVE_WORD_EFFECTS.some(effect => effect.value === value);
+    if (key.endsWith('Color')) return /^#[0-9a-f]{6}$/i.test(value as string);
+    return true;
+};
+
+// Copies only the preset fields, each only when it has the right type; the rest come from the defaults
+const readPresetStyle = (style: Record<string, unknown>, defaults: SubtitleStyle): PresetStyle => {
+    const result: Record<string, unknown> = { ...toPresetStyle(defaults) };
+    for (const [key, fallback] of Object.entries(result)) {
+        if (isValidStyleValue(key, style[key], fallback)) result[key] = style[key];
+    }
+    return result as PresetStyle;
+};
+
+// Keeps presets with a name and a style object
+const readPresets = (data: unknown, defaults: SubtitleStyle): StylePreset[] => {
+    if (!Array.isArray(data)) return [];
+    return data.flatMap((item: unknown) => {
+        const preset = (item && typeof item === 'object' ? item : {}) as Partial<Record<keyof StylePreset, unknown>>;
+        if (typeof preset.name !== 'string' || !preset.style || typeof preset.style !== 'object') return [];
+        return [{
+            id: typeof preset.id === 'string' ? preset.id : crypto.randomUUID(),
+            name: preset.name,
+            builtIn: false,
+            style: readPresetStyle(preset.style as Record<string, unknown>, defaults),
+        }];
+    });
+};
+
+export const loadUserPresets = (defaults: SubtitleStyle): StylePreset[] => {
+    try {
+        return readPresets(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'), defaults);
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Throws when the presets do not fit in the browser's storage quota.
+ */
+export const saveUserPresets = (presets: StylePreset[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * A file with the presets and the uploaded fonts they use, so a brand look moves between machines.
+ */
+export const presetsToJson = (presets: StylePreset[], fonts: CustomFont[]): string => {
+    const used = fonts.filter(font => presets.some(preset => preset.style.fontFamily.includes(`'${font.family}'`)));
+    return JSON.stringify({ version: EXPORT_VERSION, presets, fonts: used }, null, 2);
+};
+
+/**
+ * Reads a presets file. Imported presets get new ids, so importing twice adds copies instead of
+ * silently replacing presets.
+ */
+export const parsePresetsJson = (content: string, defaults: SubtitleStyle): { presets: StylePreset[], fonts: CustomFont[] } => {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        throw new Error('The presets file is not valid JSON.');
+    }
+    const file = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    const presets = readPresets(file.presets, defaults).map(preset => ({ ...preset, id: crypto.randomUUID() }));
+    if (presets.length === 0) {
+        throw new Error('The file has no style presets.');
+    }
+    return { presets, fonts: readCustomFonts(file.fonts) };
+};
@@ -0,0 +1,198 @@
+import { GeneratedCue, WordCue } from '../types';
+
+// Parses "HH:MM:SS,mmm", "HH:MM:SS.mmm", "MM:SS.mmm" or ASS "H:MM:SS.cc" into seconds
+const parseTimestamp = (value: string): number => {
+    const parts = value.trim().replace(',', '.').split(':');
+    let seconds = 0;
+    for (const part of parts) {
+        seconds = seconds * 60 + parseFloat(part);
+    }
+    if (Number.isNaN(seconds)) {
+        throw new Error(`Invalid timestamp "${value}".`);
+    }
+    return seconds;
+};
+
+const splitWords = (text: string) => text.split(/\s+/).filter(w => w.length > 0);
+
+/**
+ * Spreads words across a time range in proportion to their length.
+ * Used when a subtitle file only has cue-level timing.
+ */
+export const distributeWordTimes = (words: string[], startTime: number, endTime: number): WordCue[] => {
+    const totalWeight = words.reduce((sum, w) => sum + w.length, 0);
+    const duration = Math.max(0, endTime - startTime);
+    let cursor = startTime;
+    return words.map((word, i) => {
+        const share = totalWeight > 0 ? (word.length / totalWeight) * duration : duration / words.length;
+        const wordStart = cursor;
+        cursor = i === words.length - 1 ? endTime : cursor + share;
+        return { word, startTime: wordStart, endTime: cursor };
+    });
+};
+
+const stripTags = (text: string) => text.replace(/<[^>]*>/g, '');
+
+const decodeEntities = (text: string) =>
+    text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+// Splits a file into blank-line separated blocks, normalizing line endings and a BOM
+const toBlocks = (content: string) =>
+    content.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/).map(b => b.trim()).filter(Boolean);
+
+const TIMING_LINE = /([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+
+/**
+ * Parses a SubRip file. SRT carries no word timing, so words are estimated inside each cue.
+ */
+export const parseSrt = (content: string): GeneratedCue[] => {
+    const cues: GeneratedCue[] = [];
+    for (const block of toBlocks(content)) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+        if (timingIndex === -1) continue;
+
+        const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+        const startTime = parseTimestamp(start);
+        const endTime = parseTimestamp(end);
+        const words = splitWords(decodeEntities(stripTags(lines.slice(timingIndex + 1).join(' '))));
+        if (words.length === 0) continue;
+
+        cues.push({ startTime, endTime, words: distributeWordTimes(words, startTime, endTime) });
+    }
+    return cues;
+};
+
+/**
+ * Parses a WebVTT file. Inline <HH:MM:SS.mmm> timestamps are used as word start times when present,
+ * and a <v Name> voice tag becomes the speaker of the cue's words.
+ */
+export const parseVtt = (content: string): GeneratedCue[] => {
+    const cues: GeneratedCue[] = [];
+    for (const block of toBlocks(content)) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+        // Skips the WEBVTT header, NOTE, STYLE and REGION blocks
+        if (timingIndex === -1) continue;
+
+        const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+        const startTime = parseTimestamp(start);
+        const endTime = parseTimestamp(end);
+        const body = lines.slice(timingIndex + 1).join(' ');
+
+        // Splits the payload on inline timestamps, so each segment knows when it starts
+        const segments: { start: number, text: string }[] = [];
+        const timestampTag = /<(\d{1,2}:)?\d{2}:\d{2}\.\d{3}>/g;
+        let segmentStart = startTime;
+        let lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = timestampTag.exec(body)) !== null) {
+            segments.push({ start: segmentStart, text: body.slice(lastIndex, match.index) });
+            segmentStart = parseTimestamp(match[0].slice(1, -1));
+            lastIndex = match.index + match[0].length;
+        }
+        segments.push({ start: segmentStart, text: body.slice(lastIndex) });
+
+        const words: WordCue[] = [];
+        segments.forEach((segment, i) => {
+            const segmentWords = splitWords(decodeEntities(stripTags(segment.text)));
+            if (segmentWords.length === 0) return;
+            const segmentEnd = i + 1 < segments.length ? segments[i + 1].start : endTime;
+            words.push(...distributeWordTimes(segmentWords, segment.start, segmentEnd));
+        });
+        if (words.length === 0) continue;
+
+        const speaker = /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(body)?.[1].trim();
+        cues.push({ startTime, endTime, words: speaker ? words.map(w => ({ ...w, speaker })) : words });
+    }
+    return cues;
+};
+
+/**
+ * Parses an ASS/SSA script. Karaoke tags (\k, \kf, \ko, \K) give word durations; otherwise words are estimated.
+ */
+export const parseAss = (content: string): GeneratedCue[] => {
+    const lines = content.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split('\n');
+    let format: string[] = [];
+    let inEvents = false;
+    const cues: GeneratedCue[] = [];
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (line.startsWith('[')) {
+            inEvents = line.toLowerCase() === '[events]';
+            continue;
+        }
+        if (!inEvents) continue;
+
+        if (line.startsWith('Format:')) {
+            format = line.slice('Format:'.length).split(',').map(f => f.trim().toLowerCase());
+            continue;
+        }
+        if (!line.startsWith('Dialogue:') || format.length === 0) continue;
+
+        // Text is always the last field and may itself contain commas
+        const fields = line.slice('Dialogue:'.length).split(',');
+        const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')].map(v => v.trim());
+        const startTime = parseTimestamp(values[format.indexOf('start')]);
+        const endTime = parseTimestamp(values[format.indexOf('end')]);
+        const text = values[format.indexOf('text')].replace(/\\[Nn]/g, ' ').replace(/\\h/g, ' ');
+
+        const words: WordCue[] = [];
+        if (/\{[^}]*\\[kK][fo]?\d+/.test(text)) {
+            // Each karaoke tag times the syllable that follows it, in centiseconds
+            let cursor = startTime;
+            const syllable = /\{[^}]*?\\[kK][fo]?(\d+)[^}]*\}([^{]*)/g;
+            let match: RegExpExecArray | null;
+            let joinsPrevious = false;
+            while ((match = syllable.exec(text)) !== null) {
+                const duration = parseInt(match[1], 10) / 100;
+                const syllableEnd = Math.min(endTime, cursor + duration);
+                const syllableWords = splitWords(match[2]);
+                if (syllableWords.length > 0) {
+                    const timed = distributeWordTimes(syllableWords, cursor, syllableEnd);
+                    // Syllables of one word ("syl" "la" "ble") are not separated by whitespace
+                    const previous = words[words.length - 1];
+                    if (joinsPrevious && previous && !/^\s/.test(match[2])) {
+                        const [first, ...rest] = timed;
+                        previous.word += first.word;
+                        previous.endTime = first.endTime;
+                        words.push(...rest);
+                    } else {
+                        words.push(...timed);
+                    }
+                    joinsPrevious = !/\s$/.test(match[2]);
+                }
+                cursor += duration;
+            }
+        } else {
+            const plain = splitWords(text.replace(/\{[^}]*\}/g, ''));
+            words.push(...distributeWordTimes(plain, startTime, endTime));
+        }
+        if (words.length === 0) continue;
+
+        cues.push({ startTime, endTime, words });
+    }
+    return cues.sort((a, b) => a.startTime - b.startTime);
+};
+
+/**
+ * Detects the subtitle format from the file name (falling back to its content) and parses it
+ * into the cue shape the caption pipeline expects.
+ */
+export const parseSubtitleFile = (fileName: string, content: string): GeneratedCue[] => {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    let cues: GeneratedCue[];
+    if (extension === 'ass' || extension === 'ssa' || /^\s*\[Script Info\]/i.test(content)) {
+        cues = parseAss(content);
+    } else if (extension === 'vtt' || /^﻿?WEBVTT/.test(content)) {
+        cues = parseVtt(content);
+    } else {
+        cues = parseSrt(content);
+    }
+
+    if (cues.length === 0) {
+        throw new Error("No subtitle cues were found in the file.");
+    }
+    return cues;
+};
@@ -0,0 +1,209 @@
+import { CaptionCue, SubtitleStyle } from '../types';
+import { toDisplayText } from './captionEffects';
+import { captionSpeaker, listSpeakers, speakerName } from './speakers';
+import { wordSeparator } from './captionLayout';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_FORMATS: { value: SubtitleFormat, label: string, mimeType: string }[] = [
+    { value: 'srt', label: 'SubRip (.srt)', mimeType: 'application/x-subrip' },
+    { value: 'vtt', label: 'WebVTT (.vtt)', mimeType: 'text/vtt' },
+    { value: 'ass', label: 'Advanced SubStation (.ass)', mimeType: 'text/x-ssa' },
+];
+
+// Helper to split seconds into clock components, rounding to whole milliseconds first
+function splitTime(seconds: number) {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    return {
+        h: Math.floor(totalMs / 3600000),
+        m: Math.floor((totalMs % 3600000) / 60000),
+        s: Math.floor((totalMs % 60000) / 1000),
+        ms: totalMs % 1000,
+    };
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatSrtTime = (seconds: number) => {
+    const { h, m, s, ms } = splitTime(seconds);
+    return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+};
+
+const formatVttTime = (seconds: number) => {
+    const { h, m, s, ms } = splitTime(seconds);
+    return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+};
+
+// ASS timestamps use a single-digit hour and centiseconds
+const formatAssTime = (seconds: number) => {
+    const totalCs = Math.max(0, Math.round(seconds * 100));
+    const h = Math.floor(totalCs / 360000);
+    const m = Math.floor((totalCs % 360000) / 6000);
+    const s = Math.floor((totalCs % 6000) / 100);
+    const cs = totalCs % 100;
+    return `${h}:${pad(m)}:${pad(s)}.${pad(cs)}`;
+};
+
+const cueText = (cue: CaptionCue) =>
+    cue.words.length > 0 ? cue.words.map(w => w.word).join(wordSeparator(cue)) : cue.text;
+
+const escapeVtt = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Speaker names are only written when there is more than one speaker to tell apart
+const namesSpeakers = (captions: CaptionCue[]) => listSpeakers(captions).length > 1;
+
+/**
+ * Serializes captions as SubRip text. SRT has no word timing, so each cue is a single line of text.
+ * When several people speak, a cue that starts a new speaker's turn begins with "Name: ".
+ */
+export const captionsToSrt = (captions: CaptionCue[], speakerNames: Record<string, string> = {}): string => {
+    const withNames = namesSpeakers(captions);
+    return captions
+        .map((cue, i) => {
+            const speaker = captionSpeaker(cue);
+            const prefix = withNames && speaker && speaker !== captionSpeaker(captions[i - 1] ?? { words: [] })
+                ? `${speakerName(speaker, speakerNames)}: `
+                : '';
+            return `${i + 1}\n${formatSrtTime(cue.startTime)} --> ${formatSrtTime(cue.endTime)}\n${prefix}${cueText(cue)}\n`;
+        })
+        .join('\n');
+};
+
+/**
+ * Serializes captions as WebVTT, using inline timestamp and <c> tags to carry word-level timing.
+ * When several people speak, each cue is wrapped in a <v Name> voice tag.
+ */
+export const captionsToVtt = (captions: CaptionCue[], speakerNames: Record<string, string> = {}): string => {
+    const withNames = namesSpeakers(captions);
+    const blocks = captions.map((cue, i) => {
+        const timing = `${formatVttTime(cue.startTime)} --> ${formatVttTime(cue.endTime)}`;
+        const speaker = captionSpeaker(cue);
+        const voice = withNames && speaker ? `<v ${escapeVtt(speakerName(speaker, speakerNames))}>` : '';
+        if (cue.words.length === 0) {
+            return `${i + 1}\n${timing}\n${voice}${escapeVtt(cue.text)}\n`;
+        }
+        // The first word starts with the cue, so only later words need a leading timestamp tag
+        const body = cue.words.map((word, j) => {
+            const tag = `<c>${escapeVtt(word.word)}</c>`;
+            return j === 0 ? tag : `<${formatVttTime(word.startTime)}>${tag}`;
+        }).join(wordSeparator(cue));
+        return `${i + 1}\n${timing}\n${voice}${body}\n`;
+    });
+    return ['WEBVTT\n', ...blocks].join('\n');
+};
+
+// Converts a #RRGGBB color and an opacity (0-1) into ASS &HAABBGGRR notation
+const toAssColor = (hex: string, opacity = 1) => {
+    const clean = hex.replace('#', '').padEnd(6, '0');
+    const r = clean.slice(0, 2);
+    const g = clean.slice(2, 4);
+    const b = clean.slice(4, 6);
+    const alpha = Math.round((1 - opacity) * 255).toString(16).padStart(2, '0');
+    return `&H${alpha}${b}${g}${r}`.toUpperCase();
+};
+
+// Takes the first family from a CSS font-family list, e.g. "'The Luckiest Guy', cursive" -> "The Luckiest Guy"
+const primaryFontName = (fontFamily: string) =>
+    fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+
+const escapeAss = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/\{/g, '(').replace(/\}/g, ')').replace(/\n/g, '\\N');
+
+/**
+ * Serializes captions as an ASS script with \k karaoke tags.
+ * The script resolution matches the video so font size and vertical margin map directly from SubtitleStyle.
+ */
+export const captionsToAss = (
+    captions: CaptionCue[],
+    styles: SubtitleStyle,
+    videoDimensions: { width: number, height: number },
+    speakerNames: Record<string, string> = {}
+): string => {
+    const width = videoDimensions.width || 1920;
+    const height = videoDimensions.height || 1080;
+    const fontSize = Math.round((styles.fontSize / 100) * height);
+    const marginV = Math.round((styles.positionY / 100) * height);
+
+    // In karaoke, SecondaryColour is shown before a word is sung and PrimaryColour after.
+    // Without a highlight there are no karaoke tags and PrimaryColour is the text color.
+    const highlight = styles.activeWordEffect !== 'none';
+    const primary = toAssColor(highlight ? styles.highlightColor : styles.color);
+    const secondary = toAssColor(styles.color);
+    const box = toAssColor(styles.backgroundColor, styles.showBackground ? 0.7 : 0);
+    // BorderStyle 3 draws an opaque box behind the text; 1 is a plain outline
+    const borderStyle = styles.showBackground ? 3 : 1;
+    // With a box, OutlineColour and Outline size the box; otherwise they are the text outline
+    const outlineColor = styles.showBackground ? box : toAssColor(styles.strokeColor);
+    const outline = styles.showBackground
+        ? Math.max(1, Math.round(fontSize * 0.1))
+        : Math.round((styles.strokeWidth / 100) * fontSize);
+    // BackColour is the shadow color when there is no box
+    const back = styles.showBackground ? box : toAssColor(styles.shadowColor, styles.showShadow ? 0.5 : 0);
+    const shadow = styles.showShadow ? Math.round((styles.shadowOffset / 100) * fontSize) : 0;
+    const spacing = Math.round((styles.letterSpacing / 100) * fontSize);
+    // \kf sweeps the highlight across each word; \k switches it at once
+    const karaokeTag = styles.activeWordEffect === 'fill' ? 'kf' : 'k';
+
+    const header = [
+        '[Script Info]',
+        'ScriptType: v4.00+',
+        `PlayResX: ${width}`,
+        `PlayResY: ${height}`,
+        'WrapStyle: 0',
+        'ScaledBorderAndShadow: yes',
+        '',
+        '[V4+ Styles]',
+        'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+        `Style: Default,${primaryFontName(styles.fontFamily)},${fontSize},${primary},${secondary},${outlineColor},${back},0,0,0,0,100,100,${spacing},0,${borderStyle},${outline},${shadow},2,${Math.round(width * 0.05)},${Math.round(width * 0.05)},${marginV},1`,
+        '',
+        '[Events]',
+        'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ];
+
+    const events = captions.map(cue => {
+        let text: string;
+        if (cue.words.length === 0 || !highlight) {
+            text = escapeAss(toDisplayText(cue.text, styles));
+        } else {
+            const parts: string[] = [];
+            const separator = wordSeparator(cue);
+            // A leading silence is an empty karaoke syllable so the first word lights up on time
+            const lead = Math.round((cue.words[0].startTime - cue.startTime) * 100);
+            if (lead > 0) parts.push(`{\\k${lead}}`);
+            cue.words.forEach((word, i) => {
+                const next = cue.words[i + 1];
+                const until = next ? next.startTime : Math.max(word.endTime, cue.endTime);
+                const duration = Math.max(0, Math.round((until - word.startTime) * 100));
+                parts.push(`{\\${karaokeTag}${duration}}${escapeAss(toDisplayText(word.word, styles))}${next ? separator : ''}`);
+            });
+            text = parts.join('');
+        }
+        // The Name field is the speaker; commas would end the field early
+        const speaker = captionSpeaker(cue);
+        const name = speaker ? speakerName(speaker, speakerNames).replace(/,/g, ' ') : '';
+        return `Dialogue: 0,${formatAssTime(cue.startTime)},${formatAssTime(cue.endTime)},Default,${name},0,0,0,,${text}`;
+    });
+
+    return [...header, ...events, ''].join('\n');
+};
+
+/**
+ * Serializes captions into the requested sidecar subtitle format.
+ */
+export const serializeCaptions = (
+    format: SubtitleFormat,
+    captions: CaptionCue[],
+    styles: SubtitleStyle,
+    videoDimensions: { width: number, height: number },
+    speakerNames: Record<string, string> = {}
+): string => {
+    switch (format) {
+        case 'srt':
+            return captionsToSrt(captions, speakerNames);
+        case 'vtt':
+            return captionsToVtt(captions, speakerNames);
+        case 'ass':
+            return captionsToAss(captions, styles, videoDimensions, speakerNames);
+    }
+};
@@ -0,0 +1,134 @@
+import {
+    ChunkProgress,
+    CueValidationReport,
+    GeneratedCue,
+    PcmAudio,
+    TranscriptionProvider,
+    WordCue,
+    WordTimingSource,
+} from '../types';
+import { splitAudioIntoChunks, placeChunkCues, stitchChunkCues, ChunkingOptions, DEFAULT_CHUNKING_OPTIONS } from './audioChunker';
+import { validateCues, mergeValidationReports } from './cueValidator';
+import { alignTranscriptToAudio } from './forcedAligner';
+import { assignSpeakers, listSpeakers, matchChunkSpeakers, parseSpeakerTurns, splitCuesBySpeaker } from './speakers';
+import { throwIfAborted } from './retry';
+
+// Extra time kept before the next chunk's audio begins, since word times can be a little off
+const OVERLAP_MARGIN_SECONDS = 1;
+
+export interface PipelineResult {
+    transcription: string;
+    cues: GeneratedCue[];
+    report: CueValidationReport | null; // only produced when the AI timed the words
+}
+
+/**
+ * Work finished for one chunk. Kept between runs so a retry after a failure or cancellation
+ * resumes from the step that did not complete instead of paying for it again.
+ */
+export interface ChunkCacheEntry {
+    text?: string;
+    providerCues?: GeneratedCue[];
+    placedCues?: GeneratedCue[];
+    tailWords?: WordCue[]; // words around the next cut, in recording time, to match the next chunk's speakers
+    report?: { report: CueValidationReport, wordCount: number };
+}
+
+export type ChunkCache = Map<number, ChunkCacheEntry>;
+
+/**
+ * Transcribes and times audio chunk by chunk, so long videos never go out in a single request.
+ * Each chunk is timed on its own (by the provider or by local alignment), validated, moved to its
+ * place in the recording, and the chunks are stitched back together. Speaker labels in a chunk's
+ * transcript are moved onto its words and cues are split where the speaker changes; the labels,
+ * which the AI numbers per chunk, are matched to the previous chunk's through the audio they share.
+ */
+export const transcribeInChunks = async (
+    audio: PcmAudio,
+    provider: TranscriptionProvider,
+    timingSource: WordTimingSource,
+    setStatusMessage: (message: string) => void,
+    onChunkProgress: (progress: ChunkProgress[]) => void,
+    signal?: AbortSignal,
+    cache: ChunkCache = new Map(),
+    options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS
+): Promise<PipelineResult> => {
+    const chunks = splitAudioIntoChunks(audio, options);
+    const progress: ChunkProgress[] = chunks.map(chunk => ({
+        index: chunk.index,
+        startTime: chunk.keepFrom,
+        endTime: chunk.keepUntil,
+        state: cache.get(chunk.index)?.placedCues ? 'done' : 'pending',
+    }));
+    const updateProgress = (index: number, state: ChunkProgress['state']) => {
+        progress[index] = { ...progress[index], state };
+        onChunkProgress([...progress]);
+    };
+    onChunkProgress([...progress]);
+
+    const placed: GeneratedCue[][] = [];
+    let previousWords: WordCue[] = [];
+    const knownSpeakers = new Set<string>();
+    const reports: { report: CueValidationReport, wordCount: number }[] = [];
+    for (const chunk of chunks) {
+        const label = chunks.length > 1 ? ` (part ${chunk.index + 1} of ${chunks.length})` : '';
+        const chunkStatus = (message: string) => setStatusMessage(`${message}${label}`);
+
+        const cached = cache.get(chunk.index) ?? {};
+        cache.set(chunk.index, cached);
+        if (cached.placedCues) {
+            placed.push(cached.placedCues);
+            listSpeakers(cached.placedCues).forEach(s => knownSpeakers.add(s));
+            previousWords = cached.tailWords ?? [];
+            if (cached.report) reports.push(cached.report);
+            continue;
+        }
+
+        try {
+            throwIfAborted(signal);
+            if (cached.text === undefined) {
+                updateProgress(chunk.index, 'transcribing');
+                const result = await provider.transcribe(chunk.audio, chunkStatus, signal);
+                cached.text = result.text;
+                cached.providerCues = result.cues;
+            }
+            const transcript = parseSpeakerTurns(cached.text);
+            const text = transcript.text;
+
+            updateProgress(chunk.index, 'timing');
+            let cues: GeneratedCue[];
+            if (timingSource === 'audio' || (!cached.providerCues && !provider.timeTranscription)) {
+                chunkStatus('Aligning words to the audio...');
+                cues = alignTranscriptToAudio(text, chunk.audio);
+            } else {
+                const rawCues = cached.providerCues
+                    ?? await provider.timeTranscription!(text, chunk.audio.duration, chunkStatus, signal);
+                const validated = validateCues(rawCues, chunk.audio.duration, text);
+                cues = validated.cues;
+                cached.report = { report: validated.report, wordCount: text.split(/\s+/).filter(Boolean).length };
+                reports.push(cached.report);
+            }
+
+            const speakerCues = matchChunkSpeakers(
+                splitCuesBySpeaker(assignSpeakers(cues, transcript)), chunk.offset, previousWords, [...knownSpeakers]);
+            cached.placedCues = placeChunkCues(chunk, speakerCues);
+            cached.tailWords = speakerCues.flatMap(cue => cue.words)
+                .map(w => ({ ...w, startTime: w.startTime + chunk.offset, endTime: w.endTime + chunk.offset }))
+                .filter(w => w.startTime >= chunk.keepUntil - options.overlapSeconds - OVERLAP_MARGIN_SECONDS);
+            placed.push(cached.placedCues);
+            listSpeakers(cached.placedCues).forEach(s => knownSpeakers.add(s));
+            previousWords = cached.tailWords;
+            updateProgress(chunk.index, 'done');
+        } catch (error) {
+            updateProgress(chunk.index, signal?.aborted ? 'pending' : 'error');
+            throw error;
+        }
+    }
+
+    const cues = stitchChunkCues(placed);
+    return {
+        transcription: cues.flatMap(c => c.words).map(w => w.word).join(' '),
+        cues,
+        report: reports.length > 0 ? mergeValidationReports(reports) : null,
+    };
+};
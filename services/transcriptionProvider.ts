@@ -0,0 +1,48 @@
+import { TranscriptionProvider, TranscriptionProviderKind, TranscriptionProviderSettings, TranslationProvider } from '../types';
+import { createGeminiProvider, createGeminiTranslator, DEFAULT_GEMINI_MODEL } from './geminiService';
+import { createOpenAiCompatibleProvider, createOpenAiCompatibleTranslator, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, DEFAULT_OPENAI_TRANSLATION_MODEL } from './openAiCompatibleService';
+
+export const TRANSCRIPTION_PROVIDERS: { kind: TranscriptionProviderKind, label: string, defaultModel: string, models: string[] }[] = [
+    { kind: 'gemini', label: 'Google Gemini', defaultModel: DEFAULT_GEMINI_MODEL, models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'] },
+    { kind: 'openai-compatible', label: 'OpenAI-compatible (Whisper)', defaultModel: DEFAULT_OPENAI_MODEL, models: ['whisper-1', 'gpt-4o-transcribe', 'gpt-4o-mini-transcribe'] },
+];
+
+/**
+ * Default settings for a provider. The Gemini key falls back to the one configured for the dev server, if any.
+ */
+export const defaultProviderSettings = (kind: TranscriptionProviderKind): TranscriptionProviderSettings => {
+    const provider = TRANSCRIPTION_PROVIDERS.find(p => p.kind === kind) ?? TRANSCRIPTION_PROVIDERS[0];
+    return {
+        kind: provider.kind,
+        model: provider.defaultModel,
+        apiKey: kind === 'gemini' ? (process.env.API_KEY ?? '') : '',
+        baseUrl: kind === 'openai-compatible' ? DEFAULT_OPENAI_BASE_URL : '',
+        translationModel: kind === 'openai-compatible' ? DEFAULT_OPENAI_TRANSLATION_MODEL : '',
+        detectSpeakers: false,
+        vocabulary: [],
+    };
+};
+
+/**
+ * Creates the transcription provider described by the settings chosen in the UI.
+ */
+export const createTranscriptionProvider = (settings: TranscriptionProviderSettings): TranscriptionProvider => {
+    switch (settings.kind) {
+        case 'gemini':
+            return createGeminiProvider(settings);
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(settings);
+    }
+};
+
+/**
+ * Creates a translator on the same service and credentials as the chosen transcription provider.
+ */
+export const createTranslationProvider = (settings: TranscriptionProviderSettings): TranslationProvider => {
+    switch (settings.kind) {
+        case 'gemini':
+            return createGeminiTranslator(settings);
+        case 'openai-compatible':
+            return createOpenAiCompatibleTranslator(settings);
+    }
+};
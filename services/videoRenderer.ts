@@ -1,4 +1,9 @@
-import { CaptionCue, SubtitleStyle } from '../types';
+import { CaptionCue, CaptionLayer, MediaAdapter, SubtitleStyle, VideoMetadata } from '../types';
+import { getWordAppearance, WordAppearance } from './captionEffects';
+import { CaptionLayout, captionFont, layoutCaption, separateLayouts } from './captionLayout';
+import { styleForCaption } from './speakers';
+import { getCaptionArea, getFramePlacement, getOutputSize, Rect, ReframeSettings } from './reframe';
+import { createAbortError, isAbortError, throwIfAborted } from './retry';
 
 /**
  * Extracts an AudioBuffer from a video file and resamples it to 16kHz mono for AI transcription.
@@ -6,15 +11,19 @@ import { CaptionCue, SubtitleStyle } from '../types';
  */
 export const extractAudio = async (
     videoFile: File,
-    setProgress: (message: string) => void
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
 ): Promise<AudioBuffer> => {
     try {
+        throwIfAborted(signal);
         setProgress('Preparing audio for decoding...');
         const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
         const arrayBuffer = await videoFile.arrayBuffer();
+        throwIfAborted(signal);
 
         setProgress('Decoding audio track...');
-        const originalBuffer = await audioContext.decodeAudioData(arrayBuffer);
+        const originalBuffer = await audioContext.decodeAudioData(arrayBuffer).finally(() => audioContext.close());
+        throwIfAborted(signal);
 
         const targetSampleRate = 16000;
         if (originalBuffer.sampleRate === targetSampleRate && originalBuffer.numberOfChannels === 1) {
@@ -32,28 +41,55 @@ export const extractAudio = async (
         source.start();
 
         const resampledBuffer = await offlineContext.startRendering();
+        throwIfAborted(signal);
         setProgress('Audio ready for transcription.');
         return resampledBuffer;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error extracting audio:", error);
         throw new Error("Failed to process audio from the video file. It may be corrupt or in an unsupported format.");
     }
 };
 
+/**
+ * Reads a video's size and duration without showing it, for files that never reach the player.
+ */
+export const readVideoMetadata = (videoFile: File): Promise<VideoMetadata> =>
+    new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        const url = URL.createObjectURL(videoFile);
+        video.preload = 'metadata';
+        video.muted = true;
+        video.onloadedmetadata = () => {
+            URL.revokeObjectURL(url);
+            resolve({ width: video.videoWidth, height: video.videoHeight, duration: video.duration });
+        };
+        video.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Could not read ${videoFile.name}. It may be corrupt or in an unsupported format.`));
+        };
+        video.src = url;
+    });
+
+export const browserMediaAdapter: MediaAdapter<File> = { extractAudio, readVideoMetadata };
 
 /**
- * Renders a video with burned-in captions using the Canvas and MediaRecorder APIs.
+ * Renders a video with burned-in captions using the Canvas and MediaRecorder APIs, reframed to
+ * the output shape chosen in the reframe settings.
  * This is a browser-native approach that does not rely on FFmpeg.
  */
 export const renderVideoWithCaptions = async (
     videoFile: File,
-    captions: CaptionCue[],
-    styles: SubtitleStyle,
+    layers: CaptionLayer[],
     videoDimensions: { width: number, height: number },
-    setProgress: (message: string) => void
+    reframe: ReframeSettings,
+    videoBitrate: number,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
 ): Promise<string> => {
     return new Promise(async (resolve, reject) => {
-        const { width, height } = videoDimensions;
+        if (signal?.aborted) return reject(createAbortError());
+        const { width, height } = getOutputSize(videoDimensions, reframe);
         
         // 1. Setup Canvas for rendering
         const canvas = document.createElement('canvas');
@@ -86,21 +122,37 @@ export const renderVideoWithCaptions = async (
         const combinedStream = new MediaStream([canvasStream.getVideoTracks()[0], audioTrack]);
         
         // Use webm as it's generally well-supported for recording
-        const recorder = new MediaRecorder(combinedStream, { mimeType: 'video/webm; codecs=vp9' }); 
+        const recorder = new MediaRecorder(combinedStream, { mimeType: 'video/webm; codecs=vp9', videoBitsPerSecond: videoBitrate }); 
 
         recorder.ondataavailable = (e) => {
             if (e.data.size > 0) chunks.push(e.data);
         };
 
+        let cancelled = false;
         recorder.onstop = () => {
-            const blob = new Blob(chunks, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            resolve(url);
             // Cleanup
             URL.revokeObjectURL(videoElement.src);
             URL.revokeObjectURL(audioElement.src);
             audioContext.close();
+            if (cancelled) {
+                reject(createAbortError());
+                return;
+            }
+            const blob = new Blob(chunks, { type: 'video/webm' });
+            const url = URL.createObjectURL(blob);
+            resolve(url);
         };
+
+        signal?.addEventListener('abort', () => {
+            cancelled = true;
+            videoElement.pause();
+            audioElement.pause();
+            if (recorder.state !== 'inactive') {
+                recorder.stop();
+            } else {
+                recorder.onstop?.(new Event('stop'));
+            }
+        }, { once: true });
         
         recorder.onerror = (e) => reject(new Error(`MediaRecorder error: ${e.type}`));
 
@@ -109,14 +161,8 @@ export const renderVideoWithCaptions = async (
             if (videoElement.paused || videoElement.ended) {
                 return; // Stop the loop if video is not playing
             }
-            // Draw video frame
-            ctx.drawImage(videoElement, 0, 0, width, height);
-
-            // Draw captions
-            const activeCaption = captions.find(c => videoElement.currentTime >= c.startTime && videoElement.currentTime <= c.endTime);
-            if (activeCaption) {
-                drawCaption(ctx, activeCaption, videoElement.currentTime, styles, height);
-            }
+            // Draw the reframed video frame and the captions
+            drawOutputFrame(ctx, videoElement, videoDimensions, layers, reframe, videoElement.currentTime);
             
             // Report progress
             const progress = (videoElement.currentTime / videoElement.duration) * 100;
@@ -134,6 +180,7 @@ export const renderVideoWithCaptions = async (
 
         // Start everything once the video can play
         videoElement.oncanplay = () => {
+            if (cancelled) return;
             videoElement.play();
             audioElement.play();
             if (recorder.state === 'inactive') {
@@ -152,16 +199,19 @@ export const renderVideoWithCaptions = async (
 };
 
 /**
- * Renders captions on a green screen background.
+ * Renders captions on a solid key color background (green by default).
  */
 export const renderCaptionsOnGreenScreen = async (
-    captions: CaptionCue[],
-    styles: SubtitleStyle,
+    layers: CaptionLayer[],
     videoDimensions: { width: number, height: number },
     duration: number,
-    setProgress: (message: string) => void
+    keyColor: string,
+    videoBitrate: number,
+    setProgress: (message: string) => void,
+    signal?: AbortSignal
 ): Promise<string> => {
     return new Promise(async (resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError());
         const { width, height } = videoDimensions;
         
         if (duration <= 0) {
@@ -177,13 +227,17 @@ export const renderCaptionsOnGreenScreen = async (
         const chunks: Blob[] = [];
         const canvasStream = canvas.captureStream(30);
         
-        const recorder = new MediaRecorder(canvasStream, { mimeType: 'video/webm; codecs=vp9' }); 
+        const recorder = new MediaRecorder(canvasStream, { mimeType: 'video/webm; codecs=vp9', videoBitsPerSecond: videoBitrate }); 
 
         recorder.ondataavailable = (e) => {
             if (e.data.size > 0) chunks.push(e.data);
         };
 
         recorder.onstop = () => {
+            if (signal?.aborted) {
+                reject(createAbortError());
+                return;
+            }
             const blob = new Blob(chunks, { type: 'video/webm' });
             const url = URL.createObjectURL(blob);
             resolve(url);
@@ -191,12 +245,19 @@ export const renderCaptionsOnGreenScreen = async (
         
         recorder.onerror = (e) => reject(new Error(`MediaRecorder error: ${e.type}`));
 
+        signal?.addEventListener('abort', () => {
+            if (recorder.state === 'recording') {
+                recorder.stop();
+            }
+        }, { once: true });
+
         const startTime = performance.now();
         recorder.start();
 
         const renderLoop = (now: number) => {
             const currentTime = (now - startTime) / 1000;
 
+            if (signal?.aborted) return;
             if (currentTime >= duration) {
                 if (recorder.state === 'recording') {
                     recorder.stop();
@@ -205,13 +266,10 @@ export const renderCaptionsOnGreenScreen = async (
                 return;
             }
 
-            ctx.fillStyle = '#00FF00';
+            ctx.fillStyle = keyColor;
             ctx.fillRect(0, 0, width, height);
 
-            const activeCaption = captions.find(c => currentTime >= c.startTime && currentTime <= c.endTime);
-            if (activeCaption) {
-                drawCaption(ctx, activeCaption, currentTime, styles, height);
-            }
+            drawCaptionLayers(ctx, layers, currentTime, height);
             
             const progress = (currentTime / duration) * 100;
             setProgress(`Rendering green screen... ${Math.round(progress)}%`);
@@ -224,89 +282,206 @@ export const renderCaptionsOnGreenScreen = async (
 };
 
 
+// Paints the shadow under whichever pass is drawn first, so outline and fill do not cast it twice
+const setShadow = (ctx: CanvasRenderingContext2D, styles: SubtitleStyle, fontSize: number) => {
+    ctx.shadowColor = styles.shadowColor;
+    ctx.shadowBlur = (styles.shadowBlur / 100) * fontSize;
+    ctx.shadowOffsetX = ctx.shadowOffsetY = (styles.shadowOffset / 100) * fontSize;
+};
+
+const clearShadow = (ctx: CanvasRenderingContext2D) => {
+    ctx.shadowColor = 'transparent';
+};
+
 /**
- * Helper function to draw a single caption on the canvas.
+ * Draws one word centered on x, with its outline, shadow and active-word effect.
  */
-const drawCaption = (
+const drawWord = (
     ctx: CanvasRenderingContext2D,
-    caption: CaptionCue,
-    currentTime: number,
+    text: string,
+    x: number,
+    y: number,
+    width: number,
+    fontSize: number,
+    appearance: WordAppearance,
     styles: SubtitleStyle,
-    videoHeight: number,
 ) => {
-    // Save context state
     ctx.save();
+    const wordY = y + appearance.offsetY * fontSize;
+    if (appearance.scale !== 1) {
+        // Scale around the middle of the word so it grows in place
+        const centerY = wordY - fontSize / 2;
+        ctx.translate(x, centerY);
+        ctx.scale(appearance.scale, appearance.scale);
+        ctx.translate(-x, -centerY);
+    }
+
+    if (appearance.boxColor) {
+        const padding = fontSize * 0.12;
+        ctx.fillStyle = appearance.boxColor;
+        ctx.beginPath();
+        ctx.roundRect(x - width / 2 - padding, wordY - fontSize - padding / 2, width + padding * 2, fontSize + padding, fontSize * 0.15);
+        ctx.fill();
+    }
 
-    // Style setup
-    const fontSize = (styles.fontSize / 100) * videoHeight;
-    ctx.font = `${fontSize}px ${styles.fontFamily}`;
+    if (styles.showShadow) setShadow(ctx, styles, fontSize);
+    const strokeWidth = (styles.strokeWidth / 100) * fontSize;
+    if (strokeWidth > 0) {
+        // The stroke is centered on the glyph edge and the fill covers its inner half
+        ctx.lineWidth = strokeWidth * 2;
+        ctx.lineJoin = 'round';
+        ctx.strokeStyle = styles.strokeColor;
+        ctx.strokeText(text, x, wordY);
+        clearShadow(ctx);
+    }
+    ctx.fillStyle = appearance.color;
+    ctx.fillText(text, x, wordY);
+    clearShadow(ctx);
+
+    if (appearance.fillProgress > 0) {
+        const left = x - width / 2;
+        ctx.beginPath();
+        ctx.rect(left, 0, width * appearance.fillProgress, ctx.canvas.height);
+        ctx.clip();
+        ctx.fillStyle = styles.highlightColor;
+        ctx.fillText(text, x, wordY);
+    }
+    ctx.restore();
+};
+
+const applyCaptionFont = (ctx: CanvasRenderingContext2D, styles: SubtitleStyle, videoHeight: number) => {
+    const font = captionFont(styles, videoHeight);
+    ctx.font = font.font;
+    ctx.letterSpacing = `${font.letterSpacing}px`;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'bottom';
+};
 
-    // Position setup
-    const x = ctx.canvas.width / 2;
-    const y = ctx.canvas.height - ( (styles.positionY / 100) * ctx.canvas.height );
-
-    const fullText = caption.words.map(w => w.word).join(' ');
-    
-    // Simple line wrapping
-    const maxWidth = ctx.canvas.width * 0.9;
-    const words = fullText.split(' ');
-    let line = '';
-    const lines = [];
-    for (const word of words) {
-        const testLine = line + word + ' ';
-        if (ctx.measureText(testLine).width > maxWidth && line.length > 0) {
-            lines.push(line.trim());
-            line = word + ' ';
-        } else {
-            line = testLine;
-        }
-    }
-    lines.push(line.trim());
-    
-    const lineHeight = fontSize * 1.2;
+const measureCaption = (
+    ctx: CanvasRenderingContext2D,
+    caption: CaptionCue,
+    styles: SubtitleStyle,
+    area: { width: number, height: number },
+    videoHeight: number,
+): CaptionLayout => {
+    ctx.save();
+    applyCaptionFont(ctx, styles, videoHeight);
+    const layout = layoutCaption(caption, styles, area, text => ctx.measureText(text).width, videoHeight);
+    ctx.restore();
+    return layout;
+};
+
+const drawCaptionLayout = (
+    ctx: CanvasRenderingContext2D,
+    caption: CaptionCue,
+    layout: CaptionLayout,
+    currentTime: number,
+    styles: SubtitleStyle,
+    videoHeight: number,
+) => {
+    ctx.save();
+    applyCaptionFont(ctx, styles, videoHeight);
 
-    // Draw background for each line
     if (styles.showBackground) {
         ctx.fillStyle = styles.backgroundColor + 'B3'; // Add 70% alpha
-        const padding = fontSize * 0.2;
-        for (let i = 0; i < lines.length; i++) {
-            const textWidth = ctx.measureText(lines[i]).width;
-            const bgX = x - textWidth / 2 - padding;
-            const bgY = y - (lines.length - i) * lineHeight;
-            const bgWidth = textWidth + (padding * 2);
-            const bgHeight = lineHeight;
-            ctx.fillRect(bgX, bgY, bgWidth, bgHeight);
+        for (const line of layout.lines) {
+            ctx.fillRect(line.left - layout.padding, line.top, line.width + layout.padding * 2, layout.lineHeight);
         }
     }
-    
-    // Draw text with word-level highlighting
-    let wordIdxOffset = 0;
-    for (let i = 0; i < lines.length; i++) {
-        const lineText = lines[i];
-        const lineY = y - (lines.length - 1 - i) * lineHeight + (lineHeight - fontSize) / 2;
-        const lineWords = lineText.split(' ');
-        
-        const totalLineWidth = ctx.measureText(lineText).width;
-        let currentX = x - totalLineWidth / 2;
-
-        for (const wordStr of lineWords) {
-            const word = caption.words[wordIdxOffset];
-            
-            if (!word) continue;
 
-            const isHighlighted = currentTime >= word.startTime && currentTime <= word.endTime;
-            ctx.fillStyle = isHighlighted ? styles.highlightColor : styles.color;
-            
-            const wordWidth = ctx.measureText(wordStr).width;
-            // Center each word in its measured space
-            ctx.fillText(wordStr, currentX + wordWidth / 2, lineY);
-            currentX += wordWidth + ctx.measureText(' ').width; // Add space width
-            wordIdxOffset++;
+    for (const line of layout.lines) {
+        for (const box of line.words) {
+            const appearance = getWordAppearance(caption.words[box.wordIndex], currentTime, styles);
+            drawWord(ctx, box.text, box.left + box.width / 2, line.baseline, box.width, layout.font.fontSize, appearance, styles);
         }
     }
 
-    // Restore context state
     ctx.restore();
 };
+
+/**
+ * Draws the captions of every layer active at a time, each in its own style, moved apart where
+ * they would overlap. Speaker overrides are applied to each caption. Used by the renderers and the player preview, so both draw identical captions.
+ * Captions are placed within `area` (a safe area), while font sizes stay relative to the whole frame.
+ * Returns whether anything was drawn.
+ */
+export const drawCaptionLayers = (
+    ctx: CanvasRenderingContext2D,
+    layers: CaptionLayer[],
+    currentTime: number,
+    videoHeight: number,
+    area: Rect = { x: 0, y: 0, width: ctx.canvas.width, height: videoHeight },
+): boolean => {
+    const active = layers.flatMap(layer => {
+        const caption = layer.captions.find(c => currentTime >= c.startTime && currentTime <= c.endTime);
+        return caption ? [{ caption, styles: styleForCaption(layer.styles, caption) }] : [];
+    });
+    if (active.length === 0) return false;
+
+    ctx.save();
+    ctx.translate(area.x, area.y);
+    const layouts = separateLayouts(active.map(({ caption, styles }) => measureCaption(ctx, caption, styles, area, videoHeight)));
+    active.forEach(({ caption, styles }, i) => drawCaptionLayout(ctx, caption, layouts[i], currentTime, styles, videoHeight));
+    ctx.restore();
+    return true;
+};
+
+// Width of the tiny copy the blurred background is scaled up from; smaller is blurrier
+const BLUR_SAMPLE_WIDTH = 24;
+const BLUR_DIM = 'rgba(0, 0, 0, 0.35)';
+let blurCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Draws a source frame into the output canvas as the reframe settings place it. The blurred
+ * background is made by scaling a tiny copy of the frame up, which needs no canvas filter
+ * support and costs little per frame.
+ */
+export const drawReframedFrame = (
+    ctx: CanvasRenderingContext2D,
+    frame: CanvasImageSource,
+    source: { width: number, height: number },
+    reframe: ReframeSettings,
+    time: number,
+) => {
+    const { width, height } = ctx.canvas;
+    const placement = getFramePlacement(source, { width, height }, reframe, time);
+    if (placement.destination.width < width || placement.destination.height < height) {
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, width, height);
+    }
+    if (placement.background) {
+        const { x, y, width: sw, height: sh } = placement.background;
+        blurCanvas = blurCanvas ?? document.createElement('canvas');
+        blurCanvas.width = BLUR_SAMPLE_WIDTH;
+        blurCanvas.height = Math.max(1, Math.round(BLUR_SAMPLE_WIDTH * height / width));
+        const blurCtx = blurCanvas.getContext('2d');
+        if (blurCtx) {
+            blurCtx.drawImage(frame, x, y, sw, sh, 0, 0, blurCanvas.width, blurCanvas.height);
+            ctx.save();
+            ctx.imageSmoothingEnabled = true;
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(blurCanvas, 0, 0, width, height);
+            ctx.fillStyle = BLUR_DIM;
+            ctx.fillRect(0, 0, width, height);
+            ctx.restore();
+        }
+    }
+    const { source: from, destination: to } = placement;
+    ctx.drawImage(frame, from.x, from.y, from.width, from.height, to.x, to.y, to.width, to.height);
+};
+
+/**
+ * Draws one output frame: the reframed source frame with the captions inside the safe area.
+ */
+export const drawOutputFrame = (
+    ctx: CanvasRenderingContext2D,
+    frame: CanvasImageSource,
+    source: { width: number, height: number },
+    layers: CaptionLayer[],
+    reframe: ReframeSettings,
+    time: number,
+) => {
+    drawReframedFrame(ctx, frame, source, reframe, time);
+    const output = { width: ctx.canvas.width, height: ctx.canvas.height };
+    drawCaptionLayers(ctx, layers, time, output.height, getCaptionArea(output, reframe));
+};
@@ -0,0 +1,62 @@
+const STORAGE_KEY = 'auto-captioner.vocabulary';
+
+// Keeps the prompts short; a glossary longer than this is more likely to confuse than help
+export const MAX_VOCABULARY_TERMS = 200;
+
+/**
+ * Reads a glossary written one term per line or separated by commas. Duplicates are dropped,
+ * ignoring case, and the first spelling is kept.
+ */
+export const parseVocabulary = (text: string): string[] => {
+    const seen = new Set<string>();
+    return text.split(/[\n,]/)
+        .map(term => term.trim())
+        .filter(term => {
+            const key = term.toLowerCase();
+            if (!term || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, MAX_VOCABULARY_TERMS);
+};
+
+/**
+ * A sentence for a prompt asking the model to spell the glossary terms as given, or an empty
+ * string when there are none.
+ */
+export const vocabularyHint = (terms: string[]): string =>
+    terms.length === 0
+        ? ''
+        : `The audio may mention the following names and terms. Whenever one of them is spoken, spell it exactly as written here: ${terms.join(', ')}.`;
+
+// Whisper only reads the last 224 tokens of its prompt. English averages about four characters a
+// token; the limit leaves room for names and other scripts, which take more.
+const MAX_WHISPER_PROMPT_CHARS = 600;
+
+/**
+ * The terms that fit in a Whisper prompt, taken in order, so the first terms entered are the ones kept
+ * rather than the ones Whisper would cut.
+ */
+export const whisperPromptTerms = (terms: string[]): string[] => {
+    let length = 0;
+    const kept: string[] = [];
+    for (const term of terms) {
+        length += (kept.length > 0 ? 2 : 0) + term.length;
+        if (length > MAX_WHISPER_PROMPT_CHARS) break;
+        kept.push(term);
+    }
+    return kept;
+};
+
+export const loadVocabulary = (): string[] => {
+    try {
+        const terms = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        return Array.isArray(terms) ? terms.filter(term => typeof term === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveVocabulary = (terms: string[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(terms));
+};
@@ -2,6 +2,33 @@ export interface WordCue {
   word: string;
   startTime: number;
   endTime: number;
+  speaker?: string; // speaker id from diarization, e.g. "S1"
+}
+
+/**
+ * The subset of AudioBuffer the pipeline reads. A real AudioBuffer satisfies it, and plain objects
+ * can too, so audio processing can run on synthetic signals or outside the browser.
+ */
+export interface PcmAudio {
+  sampleRate: number;
+  length: number;
+  duration: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+export interface VideoMetadata {
+  width: number;
+  height: number;
+  duration: number;
+}
+
+/**
+ * Reads media for the captioning pipeline. The browser decodes a File with Web Audio and a video
+ * element; the command-line tool decodes a path with ffmpeg. Audio comes back as mono PCM.
+ */
+export interface MediaAdapter<Media> {
+  extractAudio(media: Media, setProgress: (message: string) => void, signal?: AbortSignal): Promise<PcmAudio>;
+  readVideoMetadata(media: Media): Promise<VideoMetadata>;
 }
 
 export interface GeneratedCue {
@@ -18,6 +45,31 @@ export interface CaptionCue {
   words: WordCue[];
 }
 
+/**
+ * Rules for grouping timed words into on-screen captions. A zero limit means no limit.
+ */
+export interface SegmentationRules {
+  maxWordsPerCue: number;
+  maxCharsPerLine: number;
+  maxLines: number;
+  breakOnPunctuation: boolean; // end a caption after sentence punctuation, and after commas once it is long enough
+  maxGapMs: number; // a pause longer than this always starts a new caption
+  minDurationMs: number;
+  maxDurationMs: number;
+  keepFunctionWords: boolean; // keep short words like "the" or "to" with the word after them
+}
+
+/**
+ * Overrides a speaker's captions apply on top of the track style. Unset fields keep the track's value.
+ */
+export interface SpeakerStyle {
+  color?: string;
+  positionY?: number; // percentage from bottom
+}
+
+// How the word being spoken stands out from the rest of the caption
+export type ActiveWordEffect = 'none' | 'color' | 'pop' | 'bounce' | 'fill' | 'box';
+
 export interface SubtitleStyle {
   fontSize: number; // percentage of video height
   positionY: number; // percentage from bottom
@@ -26,15 +78,116 @@ export interface SubtitleStyle {
   backgroundColor: string;
   highlightColor: string;
   showBackground: boolean;
-  maxWordsPerCue: number;
+  segmentation: SegmentationRules;
+  strokeWidth: number; // outline thickness, percentage of font size
+  strokeColor: string;
+  showShadow: boolean;
+  shadowColor: string;
+  shadowBlur: number; // percentage of font size
+  shadowOffset: number; // down and to the right, percentage of font size
+  uppercase: boolean;
+  letterSpacing: number; // percentage of font size
+  activeWordEffect: ActiveWordEffect;
+  speakerStyles: Record<string, SpeakerStyle>; // by speaker id
+}
+
+export type TranscriptionProviderKind = 'gemini' | 'openai-compatible';
+
+export interface TranscriptionProviderSettings {
+  kind: TranscriptionProviderKind;
+  model: string;
+  apiKey: string;
+  baseUrl: string; // only used by OpenAI-compatible endpoints
+  translationModel: string; // chat model for translations on OpenAI-compatible endpoints; Gemini translates with `model`
+  detectSpeakers: boolean; // ask for speaker labels; Whisper-style servers only return them when they support diarization
+  vocabulary: string[]; // names and terms the provider is asked to spell as written
+}
+
+export interface TranscriptionResult {
+  text: string;
+  cues?: GeneratedCue[]; // present when the provider times words while transcribing
+}
+
+/**
+ * A speech-to-text backend. Providers that cannot time words while transcribing
+ * implement timeTranscription as a second step instead.
+ */
+export interface TranscriptionProvider {
+  readonly label: string;
+  transcribe(
+    audio: PcmAudio,
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
+  ): Promise<TranscriptionResult>;
+  timeTranscription?(
+    transcription: string,
+    duration: number,
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
+  ): Promise<GeneratedCue[]>;
+}
+
+/**
+ * A text translation backend. Returns one translation per input text, in the same order.
+ */
+export interface TranslationProvider {
+  readonly label: string;
+  translate(
+    texts: string[],
+    targetLanguage: string, // English name of the language, e.g. "Spanish"
+    setStatusMessage: (message: string) => void,
+    signal?: AbortSignal
+  ): Promise<string[]>;
+}
+
+/**
+ * Captions drawn in one style. The preview and the renderers can stack several layers,
+ * such as the source captions above their translation.
+ */
+export interface CaptionLayer {
+  captions: CaptionCue[];
+  styles: SubtitleStyle;
+}
+
+/**
+ * Captions in another language, with their own style. The cues keep the source captions' timing
+ * and are not re-segmented, so they are stored ready to display.
+ */
+export interface CaptionTrack extends CaptionLayer {
+  id: string;
+  language: string; // BCP 47 code
+  label: string;
+}
+
+// Where word timestamps come from: the transcription provider, or local alignment to the audio
+export type WordTimingSource = 'ai' | 'audio';
+
+export interface ChunkProgress {
+  index: number;
+  startTime: number;
+  endTime: number;
+  state: 'pending' | 'transcribing' | 'timing' | 'done' | 'error';
 }
 
 export enum TranscriptionStatus {
   IDLE = 'IDLE',
   PREPARING = 'PREPARING',
   TRANSCRIBING = 'TRANSCRIBING',
+  TRANSLATING = 'TRANSLATING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
   RENDERING = 'RENDERING',
   DOWNLOADING = 'DOWNLOADING',
-}
\ No newline at end of file
+}
+export interface CueValidationReport {
+  droppedWords: number; // malformed entries removed (missing text or non-numeric times)
+  invertedFixed: number; // words whose endTime was before their startTime
+  clampedToDuration: number; // words moved inside [0, duration]
+  reordered: number; // cues or words that were out of chronological order
+  overlapsFixed: number; // words that overlapped the previous word
+  zeroDurationFixed: number; // words given a minimum length
+  gapsFilled: number; // short silences closed between neighbouring words
+  insertedWords: number; // transcription words missing from the cues that were re-inserted
+  coverage: number; // share of transcription words present in the AI output, 0-1
+  missingPhrases: string[]; // transcription phrases missing from the cues that could not be placed
+}